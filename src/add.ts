@@ -0,0 +1,295 @@
+import * as fs from "node:fs";
+import { builtinModules } from "node:module";
+import * as path from "node:path";
+import pc from "picocolors";
+
+import { type PackageManager, getPackageManagerCommand } from "./options.js";
+import type { PlanStep, ScaffoldPlan } from "./plan.js";
+import { buildTemplateManifest, resolveTemplateFile } from "./scaffold.js";
+import { templatesRoot } from "./utils.js";
+
+export interface Feature {
+  name: string;
+  description: string;
+  /** Template files that make up the feature, relative to the template */
+  entries: string[];
+  /** Printed after the feature is added */
+  hint?: string;
+}
+
+const nextAppFeatures: Feature[] = [
+  {
+    name: "connect-wallet",
+    description: "Wallet picker dialog",
+    entries: ["src/components/ConnectWallet.tsx"],
+  },
+  {
+    name: "inscriptions-list",
+    description: "Inscriptions explorer with UTXO filters",
+    entries: ["src/components/InscriptionsList.tsx"],
+  },
+  {
+    name: "bitmap-validation",
+    description: "Bitmap and parcel validation hook, status badge and details popover",
+    entries: [
+      "src/hooks/useBitmapValidation.ts",
+      "src/components/ValidationStatusIndicator.tsx",
+      "src/components/ValidationDetailsPopover.tsx",
+    ],
+  },
+  {
+    name: "theme-toggle",
+    description: "Light/dark mode dropdown",
+    entries: ["src/components/ThemeToggle.tsx"],
+    hint: "Wrap your app in ThemeProvider, see templates/next-app/src/components/DefaultLayout.tsx",
+  },
+];
+
+// Components and hooks are shared with next-app, only the theme setup differs
+const reactAppFeatures: Feature[] = nextAppFeatures.map((feature) =>
+  feature.name === "theme-toggle"
+    ? { ...feature, hint: "Wrap your app in ThemeProvider, see templates/vite-react/src/main.tsx" }
+    : feature
+);
+
+const vueAppFeatures: Feature[] = [
+  {
+    name: "connect-wallet",
+    description: "Wallet picker dialog",
+    entries: ["src/components/ConnectWallet.vue"],
+  },
+  {
+    name: "inscriptions-list",
+    description: "Inscriptions explorer with UTXO filters",
+    entries: ["src/components/InscriptionsList.vue"],
+  },
+  {
+    name: "bitmap-validation",
+    description: "Bitmap and parcel validation composable, status badge and details panel",
+    entries: [
+      "src/composables/useBitmapValidation.ts",
+      "src/components/ValidationStatusIndicator.vue",
+      "src/components/ValidationDetails.vue",
+    ],
+  },
+  {
+    name: "theme-toggle",
+    description: "Light/dark mode menu",
+    entries: ["src/components/ThemeToggle.vue"],
+    hint: "Call initTheme() before mounting the app, see templates/vue-app/src/main.ts",
+  },
+];
+
+const vanillaAppFeatures: Feature[] = [
+  {
+    name: "connect-wallet",
+    description: "Wallet picker dialog",
+    entries: ["src/ui/walletModal.ts"],
+    hint: "Call setupWalletModal() with a <dialog> element, see templates/vite-vanilla/src/main.ts",
+  },
+  {
+    name: "inscriptions-list",
+    description: "UTXO list with bitmap validation badges",
+    entries: ["src/ui/utxoList.ts", "src/lib/utxos.ts"],
+  },
+];
+
+// Features available per template, Shadcn components are added on top
+const templateFeatures: Record<string, Feature[]> = {
+  "next-app": nextAppFeatures,
+  "vite-react": reactAppFeatures,
+  "vue-app": vueAppFeatures,
+  "vite-vanilla": vanillaAppFeatures,
+};
+
+// Bundled Shadcn sources, addable by component name
+const uiDir = "src/components/ui";
+
+export function getFeatures(template: string): Feature[] {
+  const features = templateFeatures[template] ?? [];
+  const components = buildTemplateManifest(template, {
+    installTailwind: true,
+    installShadcn: true,
+    addCursorRules: true,
+  })
+    .map((file) => file.target)
+    .filter((file) => path.posix.dirname(file) === uiDir && /\.(tsx|vue)$/.test(file))
+    .map((file) => ({
+      name: path.posix.basename(file).replace(/\.(tsx|vue)$/, ""),
+      description: "Shadcn component",
+      entries: [file],
+    }));
+  return [...features, ...components];
+}
+
+/**
+ * Works out which template an existing project was created from by looking
+ * at its dependencies.
+ */
+export function detectTemplate(pkg: Record<string, any>): string | undefined {
+  const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+  if (deps.next) return "next-app";
+  if (deps.react && deps.vite) return "vite-react";
+  if (deps.vue) return "vue-app";
+  if (deps["@omnisat/lasereyes-core"] && deps.vite) return "vite-vanilla";
+  return undefined;
+}
+
+export function detectPackageManager(root: string): PackageManager | undefined {
+  const lockfiles: [string, PackageManager][] = [
+    ["bun.lockb", "bun"],
+    ["pnpm-lock.yaml", "pnpm"],
+    ["yarn.lock", "yarn"],
+    ["package-lock.json", "npm"],
+  ];
+  return lockfiles.find(([file]) => fs.existsSync(path.join(root, file)))?.[1];
+}
+
+const importPattern =
+  /(?:import|export)\s[^'";]*?from\s*["']([^"']+)["']|import\s*\(?\s*["']([^"']+)["']/g;
+
+function parseImports(source: string): string[] {
+  return [...source.matchAll(importPattern)].map((match) => match[1] ?? match[2]);
+}
+
+function packageName(specifier: string) {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+const resolveExtensions = ["", ".ts", ".tsx", ".vue", "/index.ts", "/index.tsx"];
+
+function resolveTemplateImport(template: string, from: string, specifier: string) {
+  let base: string;
+  if (specifier.startsWith("@/")) base = path.posix.join("src", specifier.slice(2));
+  else if (specifier.startsWith(".")) base = path.posix.join(path.posix.dirname(from), specifier);
+  else return undefined;
+
+  return resolveExtensions
+    .map((ext) => base + ext)
+    .find((file) => resolveTemplateFile(template, file));
+}
+
+/**
+ * Follows imports from the entry files and returns every template file they
+ * need, plus the packages those files import.
+ */
+export function collectFeatureFiles(template: string, entries: string[]) {
+  const files = new Set<string>();
+  const packages = new Set<string>();
+  const queue = [...entries];
+
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    if (files.has(file)) continue;
+    files.add(file);
+
+    const source = fs.readFileSync(
+      path.join(templatesRoot, resolveTemplateFile(template, file)!),
+      "utf-8"
+    );
+    for (const specifier of parseImports(source)) {
+      if (/\.(css|scss)$/.test(specifier)) continue;
+      const resolved = resolveTemplateImport(template, file, specifier);
+      if (resolved) queue.push(resolved);
+      else if (!specifier.startsWith(".") && !specifier.startsWith("@/")) {
+        const name = packageName(specifier);
+        if (!name.startsWith("node:") && !builtinModules.includes(name)) packages.add(name);
+      }
+    }
+  }
+
+  return { files: [...files].sort(), packages: [...packages].sort() };
+}
+
+export interface AddOptions {
+  root: string;
+  feature: string;
+  packageManager: PackageManager;
+  force: boolean;
+}
+
+/**
+ * Plans copying a feature into an existing project. Files already identical
+ * to the template are skipped, files that differ are only replaced with
+ * `force`.
+ */
+export function buildAddPlan({ root, feature, packageManager, force }: AddOptions) {
+  const pkgPath = path.join(root, "package.json");
+  if (!fs.existsSync(pkgPath)) {
+    throw new Error(`${pc.red("✖")} No package.json found in ${root}`);
+  }
+  const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8"));
+  const template = detectTemplate(pkg);
+  if (!template) {
+    throw new Error(`${pc.red("✖")} Could not detect the project's framework from package.json`);
+  }
+
+  const features = getFeatures(template);
+  const selected = features.find((f) => f.name === feature);
+  if (!selected) {
+    throw new Error(
+      `${pc.red("✖")} Unknown feature "${feature}" for ${template}. Available: ${features.map((f) => f.name).join(", ")}`
+    );
+  }
+
+  const { files, packages } = collectFeatureFiles(template, selected.entries);
+
+  const steps: PlanStep[] = [];
+  const modified: string[] = [];
+  const unchanged: string[] = [];
+  for (const file of files) {
+    const source = resolveTemplateFile(template, file)!;
+    const target = path.join(root, file);
+    if (!fs.existsSync(target)) {
+      steps.push({ type: "file", action: "create", source, path: target });
+      continue;
+    }
+    const current = fs.readFileSync(target, "utf-8");
+    if (current === fs.readFileSync(path.join(templatesRoot, source), "utf-8")) {
+      unchanged.push(file);
+    } else if (force) {
+      steps.push({ type: "file", action: "overwrite", source, path: target });
+    } else {
+      modified.push(file);
+    }
+  }
+
+  if (modified.length > 0) {
+    throw new Error(
+      `${pc.red("✖")} These files differ from the template and would be overwritten:\n` +
+        modified.map((file) => `  - ${file}`).join("\n") +
+        `\nPass --force to replace them.`
+    );
+  }
+
+  const templatePkg = JSON.parse(
+    fs.readFileSync(path.join(templatesRoot, template, "package.json"), "utf-8")
+  );
+  const templateVersions: Record<string, string> = {
+    ...templatePkg.devDependencies,
+    ...templatePkg.dependencies,
+  };
+  const installed = { ...pkg.dependencies, ...pkg.devDependencies };
+  const missing = packages.filter((name) => !installed[name]);
+  // Imported by the feature but without a version in the template, the latest is installed
+  const unversioned = missing.filter((name) => !templateVersions[name]);
+  if (missing.length > 0) {
+    steps.push({
+      type: "command",
+      command: packageManager,
+      args: [
+        ...getPackageManagerCommand(packageManager, "install"),
+        ...missing.map((name) => (templateVersions[name] ? `${name}@${templateVersions[name]}` : name)),
+      ],
+      cwd: root,
+      silent: true,
+      dependencies: missing.map((name) => ({ name, dev: false })),
+      title: `\nInstalling ${missing.join(", ")}...`,
+      done: `${pc.green("✓")} Dependencies installed`,
+    });
+  }
+
+  const plan: ScaffoldPlan = { root, steps, cleanup: [] };
+  return { plan, feature: selected, template, unchanged, unversioned };
+}
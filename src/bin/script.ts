@@ -3,14 +3,39 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import { fileURLToPath } from "node:url";
 import { cac } from "cac";
-import spawn from "cross-spawn";
 import pc from "picocolors";
 import prompts from "prompts";
-import type { StdioOptions } from "child_process";
 
-import { type Framework, frameworks } from "../frameworks.js";
+import { buildAddPlan, detectPackageManager } from "../add.js";
+import {
+  type Framework,
+  frameworks,
+  getFrameworkByTemplate,
+} from "../frameworks.js";
+import {
+  type PackageManager,
+  type ScaffoldAnswers,
+  checkNetwork,
+  checkShadcnFlags,
+  getPackageManagerCommand,
+  getPackageManagerFromFlags,
+  isInteractive,
+  networks,
+  packageManagers,
+  resolveExtras,
+  resolveNonInteractiveAnswers,
+} from "../options.js";
+import {
+  type PlanReport,
+  type ScaffoldPlan,
+  executePlan,
+  planToJson,
+  printPlan,
+} from "../plan.js";
+import { applyPreset, defaultPresetFile, loadPreset } from "../preset.js";
+import { buildPlan } from "../scaffold.js";
+import { printVerifySummary, verifyProject } from "../verify.js";
 import {
-  emptyDir,
   formatTargetDir,
   isEmpty,
   pkgFromUserAgent,
@@ -33,84 +58,38 @@ cli
   .option("--pnpm", "Use pnpm as your package manager")
   .option("--yarn", "Use yarn as your package manager")
   .option("--bun", "Use bun as your package manager")
-  .option("--tailwind", "Install TailwindCSS", { default: true })
-  .option("--shadcn", "Install Shadcn UI components", { default: true });
+  .option("--tailwind", "Install TailwindCSS (--no-tailwind to skip)")
+  .option("--shadcn", "Install Shadcn UI components (--no-shadcn to skip)")
+  .option("--cursor-rules", "Add a LaserEyes .cursorrules file (--no-cursor-rules to skip)")
+  .option("--overwrite", "Remove existing files in the target directory")
+  .option("--preset [file]", `Load options from a preset file (default: ${defaultPresetFile})`)
+  .option("--dry-run", "Print the scaffolding plan without running it")
+  .option("--json", "With --dry-run, print the plan as JSON")
+  .option("--verify", "Type-check and build the generated project after scaffolding")
+  .option("--network <name>", `Bitcoin network to target. Available: ${networks.join(", ")}`)
+  .option("--offline", "Scaffold without network access, from vendored templates and the package manager cache")
+  .option("-y, --yes", "Skip all prompts, using flags and defaults")
+  .option("--no-interactive", "Same as --yes");
+
+cli
+  .command("add <feature>", "Add a template feature to an existing project")
+  .option("--cwd <dir>", "Project directory (default: current directory)")
+  .option("--force", "Overwrite files that differ from the template");
 
 const defaultTargetDir = "lasereyes-project";
 
-const renameFiles: Record<string, string | undefined> = {
-  _gitignore: ".gitignore",
-  "_env.local": ".env.local",
-  _npmrc: ".npmrc",
-};
-
-interface PackageManagerCommands {
-  install: string[];
-  installDev: string[];
-  run: string[];
-  exec: string[];
-  create: string[];
-  execDirect: string[];
-}
+function getPackageManager(options: any, quiet = false): PackageManager {
+  // Explicit CLI flags always win
+  const cliPM = getPackageManagerFromFlags(options);
 
-const packageManagersConfig: Record<string, PackageManagerCommands> = {
-  npm: {
-    install: ["install"],
-    installDev: ["install", "-D"],
-    run: ["run"],
-    exec: ["exec"],
-    create: ["create"],
-    execDirect: ["npx"],
-  },
-  yarn: {
-    install: ["add"],
-    installDev: ["add", "-D"],
-    run: ["run"],
-    exec: ["exec"],
-    create: ["create"],
-    execDirect: ["dlx"],
-  },
-  pnpm: {
-    install: ["add"],
-    installDev: ["add", "-D"],
-    run: ["run"],
-    exec: ["exec"],
-    create: ["create"],
-    execDirect: ["dlx"],
-  },
-  bun: {
-    install: ["add"],
-    installDev: ["add", "-d"],
-    run: ["run"],
-    exec: ["x"],
-    create: ["create"],
-    execDirect: ["x"],
-  },
-};
-
-function getPackageManager(options: any) {
-  // First try to detect from user agent
+  // Then try to detect from user agent
   const userAgent = process.env.npm_config_user_agent;
   const userAgentPkg = pkgFromUserAgent(userAgent);
-  
-  let detectedPM: string | undefined;
-  
-  if (userAgentPkg) {
-    const pkgName = userAgentPkg.name;
-    if (pkgName === "yarn") detectedPM = "yarn";
-    if (pkgName === "pnpm") detectedPM = "pnpm";
-    if (pkgName === "bun") detectedPM = "bun";
-    if (pkgName === "npm") detectedPM = "npm";
-  }
-
-  // Fall back to CLI options if no user agent or unrecognized
-  const cliPM = options.yarn ? "yarn" : 
-                options.pnpm ? "pnpm" : 
-                options.bun ? "bun" : "npm";
+  const detectedPM = packageManagers.find((pm) => pm === userAgentPkg?.name);
 
-  const finalPM = detectedPM || cliPM;
+  const finalPM = cliPM || detectedPM || "npm";
   
-  console.log(`\nPackage Manager: ${finalPM} ${detectedPM ? '(detected from environment)' : '(from CLI options)'}`);
+  if (!quiet) console.log(`\nPackage Manager: ${finalPM} ${cliPM ? '(from CLI options)' : detectedPM ? '(detected from environment)' : '(default)'}`);
   
   if (process.env.DEBUG) {
     console.log('Package Manager Detection Details:');
@@ -123,412 +102,324 @@ function getPackageManager(options: any) {
   return finalPM;
 }
 
-function getPackageManagerCommand(packageManager: string, commandType: keyof PackageManagerCommands) {
-  return packageManagersConfig[packageManager][commandType];
+
+async function addFeature(feature: string, options: any) {
+  const root = options.cwd ?? ".";
+  const packageManager =
+    getPackageManagerFromFlags(options) ?? detectPackageManager(root) ?? getPackageManager(options, true);
+
+  let result: ReturnType<typeof buildAddPlan>;
+  try {
+    result = buildAddPlan({ root, feature, packageManager, force: !!options.force });
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  const { plan, unchanged, unversioned } = result;
+
+  if (!(options.dryRun && options.json)) {
+    for (const name of unversioned) {
+      console.warn(
+        `${pc.yellow("!")} ${name} has no version in templates/${result.template}/package.json, installing the latest`
+      );
+    }
+  }
+
+  if (options.dryRun) {
+    if (options.json) {
+      console.log(JSON.stringify(planToJson(plan, getCliVersion()), null, 2));
+    } else {
+      printPlan(plan);
+    }
+    return;
+  }
+
+  for (const file of unchanged) {
+    console.log(`${pc.dim("=")} Unchanged ${file}`);
+  }
+  if (plan.steps.length === 0) {
+    console.log(`\n${pc.green("✓")} ${feature} is already up to date`);
+    return;
+  }
+
+  try {
+    await executePlan(plan);
+  } catch (error) {
+    console.error(`\n${pc.red("✖")} Failed to add ${feature}:`, error);
+    process.exit(1);
+  }
+
+  console.log(`\n${pc.green("✨")} Added ${feature} (${result.template})`);
+  if (result.feature.hint) console.log(`\n${result.feature.hint}`);
 }
 
-async function init() {
-  const { args, options } = cli.parse(process.argv);
-  if (options.help) return;
+export async function init(argv: string[] = process.argv) {
+  const parsed = cli.parse(argv, { run: false });
+  if (parsed.options.help) return;
+  if (cli.matchedCommandName === "add") {
+    return addFeature(parsed.args[0], parsed.options);
+  }
+
+  const { args } = parsed;
+  let options = parsed.options;
+  // Keep stdout parseable when printing the plan as JSON
+  const jsonOutput = !!(options.dryRun && options.json);
+  if (options.preset) {
+    const presetFile = options.preset === true ? defaultPresetFile : options.preset;
+    try {
+      options = applyPreset(options, loadPreset(presetFile));
+    } catch (error: any) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    if (!jsonOutput) console.log(`${pc.green("✓")} Loaded preset ${presetFile}`);
+  }
+
+  try {
+    checkNetwork(options.network);
+    // Before prompting, so both modes reject the same flags
+    checkShadcnFlags(options);
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
 
   const argTargetDir = formatTargetDir(args[0]);
   const argTemplate = options.template || options.t;
 
   let targetDir = argTargetDir || defaultTargetDir;
-  const pkgManager = getPackageManager(options);
+  const pkgManager = getPackageManager(options, jsonOutput);
 
-  // Gather all configuration upfront
-  let result: prompts.Answers<
-    "projectName" | "framework" | "variant" | "packageManager" | "addCursorRules" | "installShadcn" | "installTailwind" | "overwrite" | "overwriteChecker"
-  >;
+  let answers: ScaffoldAnswers;
 
-  try {
-    result = await prompts(
-      [
-        {
-          type: argTargetDir ? null : "text",
-          name: "projectName",
-          message: pc.reset("Project name:"),
-          initial: defaultTargetDir,
-          validate: (input: string) => {
-            const validation = isValidPackageName(input);
-            if (validation) {
-              return true;
-            }
-            return "Invalid package.json name";
+  if (!isInteractive(options)) {
+    try {
+      answers = resolveNonInteractiveAnswers(argTargetDir, options, pkgManager);
+    } catch (error: any) {
+      console.error(error.message);
+      process.exit(1);
+    }
+  } else {
+    // Gather all configuration upfront, skipping anything already given as a flag
+    const templateMatch =
+      typeof argTemplate === "string" ? getFrameworkByTemplate(argTemplate) : undefined;
+    let result: prompts.Answers<
+      "projectName" | "framework" | "variant" | "packageManager" | "network" | "addCursorRules" | "installShadcn" | "installTailwind" | "overwrite" | "overwriteChecker"
+    >;
+
+    try {
+      result = await prompts(
+        [
+          {
+            type: argTargetDir ? null : "text",
+            name: "projectName",
+            message: pc.reset("Project name:"),
+            initial: defaultTargetDir,
+            validate: (input: string) => {
+              const validation = isValidPackageName(input);
+              if (validation) {
+                return true;
+              }
+              return "Invalid package.json name";
+            },
+            onState: (state) => {
+              targetDir = formatTargetDir(state.value) || defaultTargetDir;
+            },
           },
-          onState: (state) => {
-            targetDir = formatTargetDir(state.value) || defaultTargetDir;
+          {
+            type: () =>
+              options.overwrite || !fs.existsSync(targetDir) || isEmpty(targetDir) ? null : "confirm",
+            name: "overwrite",
+            message: () =>
+              `${
+                targetDir === "."
+                  ? "Current directory"
+                  : `Target directory "${targetDir}"`
+              } is not empty. Remove existing files and continue?`,
           },
-        },
-        {
-          type: () =>
-            !fs.existsSync(targetDir) || isEmpty(targetDir) ? null : "confirm",
-          name: "overwrite",
-          message: () =>
-            `${
-              targetDir === "."
-                ? "Current directory"
-                : `Target directory "${targetDir}"`
-            } is not empty. Remove existing files and continue?`,
-        },
-        {
-          type: (_, { overwrite }: { overwrite?: boolean }) => {
-            if (overwrite === false) {
-              throw new Error(`${pc.red("✖")} Operation cancelled`);
-            }
-            return null;
+          {
+            type: (_, { overwrite }: { overwrite?: boolean }) => {
+              if (overwrite === false) {
+                throw new Error(`${pc.red("✖")} Operation cancelled`);
+              }
+              return null;
+            },
+            name: "overwriteChecker",
           },
-          name: "overwriteChecker",
-        },
-        {
-          type: argTemplate && templates.includes(argTemplate) ? null : "select",
-          name: "framework",
-          message: pc.reset("Select a framework:"),
-          initial: 0,
-          choices: frameworks.map((framework) => {
-            const frameworkColor = framework.color;
-            return {
-              title: frameworkColor(framework.display || framework.name),
-              value: framework,
-              disabled: framework.disabled,
-            };
-          }),
-        },
-        {
-          type: (framework: Framework) =>
-            framework?.variants && framework.variants.length > 0 ? "select" : null,
-          name: "variant",
-          message: pc.reset("Select a variant:"),
-          initial: 0,
-          choices: (framework: Framework) => {
-            if (!framework?.variants) return [];
-            return framework.variants.map((variant) => {
-              const variantColor = variant.color;
+          {
+            type: templateMatch ? null : "select",
+            name: "framework",
+            message: pc.reset("Select a framework:"),
+            initial: 0,
+            choices: frameworks.map((framework) => {
+              const frameworkColor = framework.color;
               return {
-                title: variantColor(variant.display || variant.name),
-                value: variant.name,
-                disabled: variant.disabled,
+                title: frameworkColor(framework.display || framework.name),
+                value: framework,
+                disabled: framework.disabled,
               };
-            });
+            }),
           },
-        },
-        {
-          type: "select",
-          name: "packageManager",
-          message: pc.reset("Select a package manager:"),
-          initial: pkgManager === "npm" ? 0 : pkgManager === "yarn" ? 1 : pkgManager === "pnpm" ? 2 : 3,
-          choices: [
-            { title: "npm", value: "npm" },
-            { title: "yarn", value: "yarn" },
-            { title: "pnpm", value: "pnpm" },
-            { title: "bun", value: "bun" },
-          ],
-        },
-        {
-          type: "confirm",
-          name: "installTailwind",
-          message: pc.reset("Would you like to install TailwindCSS?"),
-          initial: true,
-        },
-        {
-          type: "confirm",
-          name: "installShadcn",
-          message: pc.reset("Would you like to install Shadcn UI components?"),
-          initial: true,
-        },
+          {
+            type: (framework: Framework) =>
+              framework?.variants && framework.variants.length > 0 ? "select" : null,
+            name: "variant",
+            message: pc.reset("Select a variant:"),
+            initial: 0,
+            choices: (framework: Framework) => {
+              if (!framework?.variants) return [];
+              return framework.variants.map((variant) => {
+                const variantColor = variant.color;
+                return {
+                  title: variantColor(variant.display || variant.name),
+                  value: variant.name,
+                  disabled: variant.disabled,
+                };
+              });
+            },
+          },
+          {
+            type: getPackageManagerFromFlags(options) ? null : "select",
+            name: "packageManager",
+            message: pc.reset("Select a package manager:"),
+            initial: packageManagers.indexOf(pkgManager),
+            choices: packageManagers.map((pm) => ({ title: pm, value: pm })),
+          },
+          {
+            type: options.network === undefined ? "select" : null,
+            name: "network",
+            message: pc.reset("Select a network:"),
+            initial: 0,
+            choices: networks.map((network) => ({ title: network, value: network })),
+          },
+          {
+            type: options.tailwind === undefined ? "confirm" : null,
+            name: "installTailwind",
+            message: pc.reset("Would you like to install TailwindCSS?"),
+            initial: true,
+          },
+          {
+            type: (_, values) =>
+              options.shadcn !== undefined ||
+              (values.installTailwind ?? options.tailwind) === false
+                ? null
+                : "confirm",
+            name: "installShadcn",
+            message: pc.reset("Would you like to install Shadcn UI components?"),
+            initial: true,
+          },
+          {
+            type: options.cursorRules === undefined ? "confirm" : null,
+            name: "addCursorRules",
+            message: pc.reset("Would you like to add LaserEyes-specific .cursorrules file?"),
+            initial: true,
+          },
+        ],
         {
-          type: "confirm",
-          name: "addCursorRules",
-          message: pc.reset("Would you like to add LaserEyes-specific .cursorrules file?"),
-          initial: true,
-        },
-      ],
-      {
-        onCancel: () => {
-          throw new Error(`${pc.red("✖")} Operation cancelled`);
-        },
-      }
-    );
-  } catch (cancelled: any) {
-    console.log(cancelled.message);
-    return;
+          onCancel: () => {
+            throw new Error(`${pc.red("✖")} Operation cancelled`);
+          },
+        }
+      );
+    } catch (cancelled: any) {
+      console.log(cancelled.message);
+      return;
+    }
+
+    const selectedFramework: Framework = result.framework ?? templateMatch!.framework;
+    const installTailwind: boolean = result.installTailwind ?? options.tailwind;
+    answers = {
+      targetDir,
+      framework: selectedFramework,
+      variant: result.variant ?? templateMatch?.variant?.name ?? selectedFramework.name,
+      packageManager: result.packageManager ?? pkgManager,
+      installTailwind,
+      installShadcn: installTailwind && (result.installShadcn ?? options.shadcn ?? true),
+      addCursorRules: result.addCursorRules ?? options.cursorRules,
+      overwrite: !!(result.overwrite || options.overwrite),
+      network: result.network ?? options.network,
+      ...resolveExtras(options),
+    };
   }
 
-  const { framework, overwrite, variant, packageManager, installTailwind, installShadcn, addCursorRules } = result;
+  const { framework, variant, packageManager, installTailwind, installShadcn, addCursorRules, network, wallets, offline } = answers;
+  targetDir = answers.targetDir;
   const root = path.join(process.cwd(), targetDir);
 
-  if (overwrite) {
-    emptyDir(root);
-  }
-
   // Display summary of choices
-  console.log("\nProject Configuration Summary:");
-  console.log(`${pc.green("✓")} Project Name: ${targetDir}`);
-  console.log(`${pc.green("✓")} Framework: ${framework.display}`);
-  console.log(`${pc.green("✓")} Variant: ${variant}`);
-  console.log(`${pc.green("✓")} Package Manager: ${packageManager}`);
-  console.log(`${pc.green("✓")} TailwindCSS: ${installTailwind ? "Yes" : "No"}`);
-  console.log(`${pc.green("✓")} Shadcn UI: ${installShadcn ? "Yes" : "No"}`);
-  console.log(`${pc.green("✓")} Cursor Rules: ${addCursorRules ? "Yes" : "No"}\n`);
-
-  // Continue with the rest of the setup using the gathered configuration
-  if (variant === "next-app") {
-    console.log("\nCreating new Next.js app...");
-    const projectName = path.basename(targetDir);
-    const tempDir = path.join(process.cwd(), ".temp-next-app");
-    
-    const env = {
-      ...process.env,
-      npm_config_loglevel: "error",
-      npm_config_fund: "false",
-      npm_config_audit: "false",
-      npm_config_update_notifier: "false",
-      NEXT_TELEMETRY_DISABLED: "1",
-      NEXT_PRIVATE_SKIP_SETUP: "1",
-      FORCE_COLOR: "0",
-      CI: "1",
-    };
-  
-    const commonFlags = [
-      "--ts",
-      "--eslint",
-      "--app",
-      "--src-dir",
-      "--import-alias", "@/*",
-      "--no-git",
-      "--yes"
-    ];
-  
-    try {
-      if (fs.existsSync(tempDir)) {
-        fs.rmSync(tempDir, { recursive: true, force: true });
-      }
-      fs.mkdirSync(tempDir);
-  
-      const projectPath = path.join(tempDir, projectName);
-      fs.mkdirSync(projectPath);
+  if (!jsonOutput) {
+    console.log("\nProject Configuration Summary:");
+    console.log(`${pc.green("✓")} Project Name: ${targetDir}`);
+    console.log(`${pc.green("✓")} Framework: ${framework.display}`);
+    console.log(`${pc.green("✓")} Variant: ${variant}`);
+    console.log(`${pc.green("✓")} Package Manager: ${packageManager}`);
+    console.log(`${pc.green("✓")} TailwindCSS: ${installTailwind ? "Yes" : "No"}`);
+    console.log(`${pc.green("✓")} Shadcn UI: ${installShadcn ? "Yes" : "No"}`);
+    console.log(`${pc.green("✓")} Cursor Rules: ${addCursorRules ? "Yes" : "No"}`);
+    console.log(`${pc.green("✓")} Network: ${network}`);
+    if (wallets) {
+      console.log(`${pc.green("✓")} Wallets: ${wallets.join(", ")}`);
+    }
+    if (offline) {
+      console.log(`${pc.green("✓")} Offline: Yes`);
+    }
+    console.log();
+  }
 
-      let args: string[];
-      let execCommand: string[];
-  
-      if (packageManager === "bun") {
-        execCommand = ["bun"];
-        args = ["create", "next-app@14", ".", ...commonFlags];
-      } else if (packageManager === "yarn") {
-        // For yarn, use npx with --use-yarn flag
-        execCommand = ["npx"];
-        args = ["create-next-app@14", ".", "--use-yarn", ...commonFlags];
-      } else if (packageManager === "pnpm") {
-        execCommand = ["pnpm", "dlx"];
-        args = ["create-next-app@14", ".", ...commonFlags];
-      } else {
-        execCommand = ["npx"];
-        args = ["create-next-app@14", ".", ...commonFlags];
-      }
-  
-      console.log(`\nCreating Next.js app using ${packageManager}...`);
-      await executeCommand(execCommand[0], execCommand.slice(1).concat(args), { cwd: projectPath, env }, true);
+  let plan: ScaffoldPlan;
+  try {
+    plan = buildPlan(answers);
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
 
-      fs.renameSync(projectPath, targetDir);
-      fs.rmSync(tempDir, { recursive: true, force: true });
-  
-      console.log(`\n${pc.green("✔")} Created Next.js app at ${targetDir}`);
-  
-      // Copy template files
-      const templateDir = path.resolve(fileURLToPath(import.meta.url), "..", "..", "..", "templates", variant);
-      const filesToCopy = [
-        "src/app/page.tsx",
-        "src/app/layout.tsx",
-        "src/components/DefaultLayout.tsx",
-        "src/components/ConnectWallet.tsx",
-        "src/components/ThemeToggle.tsx",
-      ];
-      console.log("\nCustomizing template...");
-      for (const file of filesToCopy) {
-        const srcFile = path.join(templateDir, file);
-        const destFile = path.join(targetDir, file);
-        fs.mkdirSync(path.dirname(destFile), { recursive: true });
-        if (fs.existsSync(srcFile)) {
-          fs.copyFileSync(srcFile, destFile);
-          console.log(`${pc.green("✓")} Created ${file}`);
-        } else {
-          console.warn(`Template file not found: ${file}`);
-        }
-      }
-  
-      // Install LaserEyes
-      console.log("\nInstalling @omnisat/lasereyes...");
-      await executeCommand(packageManager, getPackageManagerCommand(packageManager, "install").concat("@omnisat/lasereyes@latest"), { cwd: targetDir }, true);
-      console.log(`${pc.green("✓")} @omnisat/lasereyes installed!\n`);
-  
-      // Add Cursor rules if selected
-      if (addCursorRules) {
-        console.log("\nAdding .cursorrules file...");
-        const src = path.join(templateDir, ".cursorrules");
-        const dest = path.join(targetDir, ".cursorrules");
-        if (fs.existsSync(src)) {
-          fs.copyFileSync(src, dest);
-          console.log(`${pc.green("✓")} Added .cursorrules`);
-        } else {
-          console.warn(`.cursorrules not found in template`);
-        }
-      }
-  
-      // Install next-themes
-      console.log("\nInstalling next-themes...");
-      await executeCommand(packageManager, getPackageManagerCommand(packageManager, "install").concat("next-themes"), { cwd: targetDir }, true);
-      console.log(`${pc.green("✓")} next-themes installed`);
-  
-      if (installShadcn) {
-        console.log("\nInitializing Shadcn...");
-
-        const isYarnV1 =
-          packageManager === "yarn" &&
-          process.env.npm_config_user_agent?.includes("yarn/1");
-
-        const runShadcnCommand = async (...args: string[]) => {
-          if (packageManager === "npm") {
-            await executeCommand(
-              "npx",
-              ["shadcn@2.3", ...args],
-              {
-                cwd: targetDir,
-                env: {
-                  ...env,
-                  SKIP_INSTRUCTIONS: "1",
-                },
-              },
-              true
-            );
-          } else if (isYarnV1) {
-            await executeCommand(
-              "npx",
-              ["shadcn@2.3", ...args],
-              {
-                cwd: targetDir,
-                env: {
-                  ...env,
-                  SKIP_INSTRUCTIONS: "1",
-                },
-              },
-              true
-            );
-          } else {
-            const execDirect = getPackageManagerCommand(packageManager, "execDirect");
-            await executeCommand(
-              packageManager,
-              [...execDirect, "shadcn@2.3", ...args],
-              {
-                cwd: targetDir,
-                env: {
-                  ...env,
-                  SKIP_INSTRUCTIONS: "1",
-                },
-              },
-              true
-            );
-          }
-        };
-
-        try {
-          // First run init with defaults
-          await runShadcnCommand("init", "--yes", "--defaults");
-          console.log(`${pc.green("✓")} Shadcn initialized successfully!`);
-
-          // Then add components one by one
-          const components = ["button", "dropdown-menu", "dialog"];
-          for (const component of components) {
-            console.log(`\nAdding ${component} component...`);
-            await runShadcnCommand("add", component, "--yes");
-            console.log(`${pc.green("✓")} ${component} installed`);
-          }
-        } catch (error) {
-          console.error(`${pc.red("✖")} Failed to initialize Shadcn:`, error);
-          throw error;
-        }
-      }
-  
-      console.log(`\n${pc.green("✨")} Success! Created ${targetDir}\n`);
-      console.log("Next steps:\n");
-      console.log(`  cd ${path.relative(process.cwd(), targetDir)}`);
-      console.log(`  ${packageManager} run dev\n`);
-      console.log("Happy Building! 🤝");
-    } catch (error) {
-      console.error(`\n${pc.red("✖")} Failed to create Next.js app:`, error);
-      // Clean up on error
-      if (fs.existsSync(tempDir)) {
-        fs.rmSync(tempDir, { recursive: true, force: true });
-      }
-      process.exit(1);
+  if (options.dryRun) {
+    if (options.json) {
+      console.log(JSON.stringify(planToJson(plan, getCliVersion()), null, 2));
+    } else {
+      printPlan(plan);
     }
-  } else if (variant === "vue-app") {
-    try {
-      console.log("\nCreating new Vue app...");
-      const createCmd = getPackageManagerCommand(packageManager, "create");
-      
-      await executeCommand(
-        packageManager,
-        [
-          ...createCmd,
-          "vite@latest",
-          targetDir,
-          "--",
-          "--template",
-          "vue-ts",
-        ],
-        {}
-      );
+    return;
+  }
 
-      // Install @omnisat/lasereyes-vue
-      console.log("\nInstalling @omnisat/lasereyes-vue...");
-      const installCmd = getPackageManagerCommand(packageManager, "install");
-      await executeCommand(
-        packageManager,
-        [...installCmd, "@omnisat/lasereyes-vue@latest"],
-        { cwd: root },
-        true
-      );
-      console.log(`${pc.green("✓")} @omnisat/lasereyes-vue installed!`);
-
-      const templateDir = path.resolve(
-        fileURLToPath(import.meta.url),
-        "..",
-        "..",
-        "..",
-        "templates",
-        variant
-      );
+  let report: PlanReport;
+  try {
+    report = await executePlan(plan);
+  } catch (error) {
+    console.error(`\n${pc.red("✖")} Failed to create ${framework.display} app:`, error);
+    process.exit(1);
+  }
 
-      // Copy template files - removed TailwindCSS related files
-      console.log("\nCustomizing template...");
-      const filesToCopy = [
-        "src/App.vue",
-        "src/main.ts",
-        "src/style.css",
-        "vite.config.ts",
-      ];
-
-      for (const file of filesToCopy) {
-        const srcFile = path.join(templateDir, file);
-        const destFile = path.join(root, file);
-
-        try {
-          fs.mkdirSync(path.dirname(destFile), { recursive: true });
-          if (fs.existsSync(srcFile)) {
-            fs.copyFileSync(srcFile, destFile);
-            console.log(`${pc.green("✓")} Created ${file}`);
-          } else {
-            console.warn(`Template file not found: ${file}`);
-          }
-        } catch (error) {
-          console.warn(`Failed to copy template file ${file}:`, error);
-        }
-      }
-    } catch (error) {
-      console.error(`\n${pc.red("✖")} Failed to create Vue app:`, error);
-      process.exit(1);
-    }
+  console.log(
+    `\nTemplate files: ${report.added.length} added, ${report.replaced.length} replaced`
+  );
+
+  // Offline installs only use the local cache, so dependencies may still be missing
+  const installSkipped =
+    offline && (report.skipped.length > 0 || !plan.steps.some((step) => step.type === "command"));
+  if (installSkipped) {
+    console.log(
+      `\n${pc.yellow("!")} Dependencies were not installed. Once you have network access, run:\n`
+    );
+    console.log(`  cd ${path.relative(process.cwd(), root) || "."}`);
+    console.log(`  ${packageManager} install\n`);
+  }
+
+  if (options.verify && installSkipped) {
+    console.log(`${pc.yellow("!")} Skipping --verify until dependencies are installed`);
+  } else if (options.verify) {
+    const result = await verifyProject(answers, plan);
+    printVerifySummary(result);
+    if (!result.ok) process.exit(1);
+  }
+
+  if (variant === "next-app") {
+    console.log(`\n${pc.green("✨")} Success! Created ${targetDir}\n`);
+    console.log("Next steps:\n");
+    console.log(`  cd ${path.relative(process.cwd(), targetDir)}`);
+    console.log(`  ${packageManager} run dev\n`);
+    console.log("Happy Building! 🤝");
   }
 
   console.log(`\nDone. Now run:\n`);
@@ -540,90 +431,14 @@ async function init() {
   console.log();
 }
 
-function executeCommand(
-  command: string,
-  args: string[],
-  options: {
-    cwd?: string;
-    env?: Record<string, string | undefined>;
-    args?: string[];
-  } = {},
-  silent = false
-) {
-  return new Promise<void>((resolve, reject) => {
-    const finalArgs = options.args ? [...args, ...options.args] : args;
-    const spawnOptions = {
-      cwd: options.cwd,
-      stdio: (silent ? "pipe" : "inherit") as StdioOptions,
-      env: {
-        ...process.env,
-        ...options.env,
-        npm_config_loglevel: silent ? "silent" : "info",
-        npm_config_fund: "false",
-        npm_config_audit: "false",
-        npm_config_update_notifier: "false",
-        NEXT_TELEMETRY_DISABLED: "1",
-        NEXT_PRIVATE_SKIP_SETUP: "1",
-        DEBUG: "",
-        CI: "1",
-        FORCE_COLOR: "0",
-        NO_UPDATE_NOTIFIER: "1",
-      },
-    };
-
-    // Loading animation for all commands
-    let loadingInterval: NodeJS.Timeout | null = null;
-    const dots = ["⣾", "⣽", "⣻", "⢿", "⡿", "⣟", "⣯", "⣷"];
-    let i = 0;
-
-    if (silent) {
-      loadingInterval = setInterval(() => {
-        process.stdout.write(`\r${dots[i]}`);
-        i = (i + 1) % dots.length;
-      }, 80);
-    }
-
-    const child = spawn(command, finalArgs, spawnOptions);
-    let stderrOutput = "";
-    let stdoutOutput = "";
-
-    if (silent) {
-      if (child.stderr) {
-        child.stderr.on("data", (data) => {
-          const output = data.toString();
-          if (output.toLowerCase().includes("error")) {
-            stderrOutput += output;
-          }
-        });
-      }
-
-      if (child.stdout) {
-        child.stdout.on("data", (data) => {
-          stdoutOutput += data.toString();
-        });
-      }
-    }
-
-    child.on("close", (code) => {
-      if (loadingInterval) {
-        clearInterval(loadingInterval);
-        process.stdout.clearLine(0);
-        process.stdout.cursorTo(0);
-      }
-
-      if (code !== 0) {
-        if (silent && stderrOutput) {
-          console.error(`\nError running ${command} ${finalArgs.join(" ")}:`);
-          console.error(stderrOutput);
-        }
-        reject(new Error(`${command} ${finalArgs.join(" ")} failed with code ${code}`));
-        return;
-      }
-      resolve();
-    });
-  });
+function getCliVersion(): string {
+  const pkgPath = path.resolve(fileURLToPath(import.meta.url), "..", "..", "..", "package.json");
+  return JSON.parse(fs.readFileSync(pkgPath, "utf-8")).version;
 }
 
-init().catch((e) => {
-  console.error(e);
-});
\ No newline at end of file
+// Only run when executed as the bin, the tests import init() directly
+if (process.argv[1] && fs.realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  init().catch((e) => {
+    console.error(e);
+  });
+}
\ No newline at end of file
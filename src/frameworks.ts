@@ -27,32 +27,46 @@ export const frameworks: Framework[] = [
         display: "Next.js (App Router)",
         color: pc.green,
       },
+      {
+        name: "vite-react",
+        display: "React + Vite (SPA)",
+        color: pc.cyan,
+      },
     ],
   },
   {
     name: "vue",
-    display: "Vue: Coming Soon",
-    color: pc.gray,
-    disabled: true,
+    display: "Vue",
+    color: pc.green,
     variants: [
       {
         name: "vue-app",
         display: "Vue 3 + Vite",
-        color: pc.gray,
+        color: pc.green,
       },
     ],
   },
   {
     name: "vanilla",
-    display: "Vanilla: Coming Soon",
-    color: pc.gray,
-    disabled: true,
+    display: "Vanilla",
+    color: pc.yellow,
     variants: [
       {
         name: "vite-vanilla",
-        display: "Vite",
-        color: pc.gray,
+        display: "TypeScript + Vite",
+        color: pc.yellow,
       },
     ],
   },
 ];
+
+export function getFrameworkByTemplate(template: string) {
+  for (const framework of frameworks) {
+    if (framework.name === template && !framework.variants?.length) {
+      return { framework, variant: undefined };
+    }
+    const variant = framework.variants?.find((v) => v.name === template);
+    if (variant) return { framework, variant };
+  }
+  return undefined;
+}
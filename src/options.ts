@@ -0,0 +1,215 @@
+import * as fs from "node:fs";
+import pc from "picocolors";
+
+import { type Framework, getFrameworkByTemplate } from "./frameworks.js";
+import { formatTargetDir, isEmpty, isValidPackageName } from "./utils.js";
+
+export const packageManagers = ["npm", "yarn", "pnpm", "bun"] as const;
+
+export type PackageManager = (typeof packageManagers)[number];
+
+export interface PackageManagerCommands {
+  install: string[];
+  installDev: string[];
+  run: string[];
+  exec: string[];
+  create: string[];
+  execDirect: string[];
+}
+
+const packageManagersConfig: Record<PackageManager, PackageManagerCommands> = {
+  npm: {
+    install: ["install"],
+    installDev: ["install", "-D"],
+    run: ["run"],
+    exec: ["exec"],
+    create: ["create"],
+    execDirect: ["npx"],
+  },
+  yarn: {
+    install: ["add"],
+    installDev: ["add", "-D"],
+    run: ["run"],
+    exec: ["exec"],
+    create: ["create"],
+    execDirect: ["dlx"],
+  },
+  pnpm: {
+    install: ["add"],
+    installDev: ["add", "-D"],
+    run: ["run"],
+    exec: ["exec"],
+    create: ["create"],
+    execDirect: ["dlx"],
+  },
+  bun: {
+    install: ["add"],
+    installDev: ["add", "-d"],
+    run: ["run"],
+    exec: ["x"],
+    create: ["create"],
+    execDirect: ["x"],
+  },
+};
+
+export function getPackageManagerCommand(
+  packageManager: PackageManager,
+  commandType: keyof PackageManagerCommands
+) {
+  return packageManagersConfig[packageManager][commandType];
+}
+
+export const networks = [
+  "mainnet",
+  "testnet",
+  "testnet4",
+  "signet",
+  "regtest",
+] as const;
+
+export type Network = (typeof networks)[number];
+
+export function checkNetwork(network: unknown) {
+  if (network !== undefined && !networks.includes(network as Network)) {
+    throw new Error(
+      `${pc.red("✖")} Unknown network: ${network}. Available: ${networks.join(", ")}`
+    );
+  }
+}
+
+/** Shadcn UI is styled with TailwindCSS, so --shadcn cannot go with --no-tailwind */
+export function checkShadcnFlags(options: Record<string, any>) {
+  if (options.shadcn === true && options.tailwind === false) {
+    throw new Error(
+      `${pc.red("✖")} Shadcn UI requires TailwindCSS, drop --shadcn or --no-tailwind`
+    );
+  }
+}
+
+export const wallets = [
+  "unisat",
+  "xverse",
+  "oyl",
+  "magic-eden",
+  "okx",
+  "op_net",
+  "leather",
+  "phantom",
+  "wizz",
+  "orange",
+] as const;
+
+export const defaultShadcnComponents = ["button", "dropdown-menu", "dialog"];
+
+export interface ScaffoldAnswers {
+  targetDir: string;
+  framework: Framework;
+  variant: string;
+  packageManager: PackageManager;
+  installTailwind: boolean;
+  installShadcn: boolean;
+  addCursorRules: boolean;
+  overwrite: boolean;
+  network: Network;
+  /** Wallets offered in the connect dialog, all supported wallets when unset */
+  wallets?: string[];
+  shadcnComponents: string[];
+  dependencies: string[];
+  devDependencies: string[];
+  /** Scaffold from vendored files and the package manager cache only */
+  offline: boolean;
+}
+
+export function getPackageManagerFromFlags(
+  options: Record<string, any>
+): PackageManager | undefined {
+  return packageManagers.find((pm) => options[pm] === true);
+}
+
+/**
+ * Prompts are skipped with --yes / --no-interactive, and whenever stdin is
+ * not a TTY so CI jobs fail fast instead of waiting for input.
+ */
+export function isInteractive(options: Record<string, any>) {
+  if (options.yes || options.interactive === false) return false;
+  return !!process.stdin.isTTY;
+}
+
+export function missingAnswer(message: string) {
+  return new Error(
+    `${pc.red("✖")} ${message} (required when running non-interactively)`
+  );
+}
+
+/**
+ * Answers that are never prompted for and only come from a preset or flag.
+ */
+export function resolveExtras(options: Record<string, any>) {
+  return {
+    wallets: options.wallets as string[] | undefined,
+    shadcnComponents:
+      (options.shadcnComponents as string[] | undefined) ?? defaultShadcnComponents,
+    dependencies: (options.dependencies as string[] | undefined) ?? [],
+    devDependencies: (options.devDependencies as string[] | undefined) ?? [],
+    offline: !!options.offline,
+  };
+}
+
+/**
+ * Builds every answer from CLI flags and defaults. Throws when an answer has
+ * no sensible default so the caller can exit instead of prompting.
+ */
+export function resolveNonInteractiveAnswers(
+  argTargetDir: string | undefined,
+  options: Record<string, any>,
+  detectedPackageManager: PackageManager
+): ScaffoldAnswers {
+  const targetDir = formatTargetDir(argTargetDir);
+  if (!targetDir) {
+    throw missingAnswer("Missing <project-directory> argument");
+  }
+
+  const projectName = targetDir === "." ? "" : targetDir.split("/").pop()!;
+  if (projectName && !isValidPackageName(projectName)) {
+    throw new Error(
+      `${pc.red("✖")} Invalid package.json name: ${projectName}`
+    );
+  }
+
+  const template = options.template || options.t;
+  if (!template || template === true) {
+    throw missingAnswer("Missing --template");
+  }
+  const found = getFrameworkByTemplate(template);
+  if (!found) {
+    throw new Error(`${pc.red("✖")} Unknown template: ${template}`);
+  }
+  if (found.framework.disabled || found.variant?.disabled) {
+    throw new Error(`${pc.red("✖")} Template ${template} is not available yet`);
+  }
+
+  const targetExists = fs.existsSync(targetDir) && !isEmpty(targetDir);
+  if (targetExists && !options.overwrite) {
+    throw missingAnswer(
+      `Target directory "${targetDir}" is not empty, pass --overwrite to remove existing files`
+    );
+  }
+
+  checkShadcnFlags(options);
+  const installTailwind = options.tailwind ?? true;
+  const installShadcn = options.shadcn ?? installTailwind;
+
+  return {
+    targetDir,
+    framework: found.framework,
+    variant: found.variant?.name ?? found.framework.name,
+    packageManager:
+      getPackageManagerFromFlags(options) ?? detectedPackageManager,
+    installTailwind,
+    installShadcn,
+    addCursorRules: options.cursorRules ?? false,
+    overwrite: targetExists,
+    network: options.network ?? "mainnet",
+    ...resolveExtras(options),
+  };
+}
@@ -0,0 +1,314 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { StdioOptions } from "node:child_process";
+import spawn from "cross-spawn";
+import pc from "picocolors";
+
+import { editFile, emptyDir, templatesRoot } from "./utils.js";
+
+export interface PlannedDependency {
+  name: string;
+  dev: boolean;
+}
+
+interface StepMessages {
+  /** Logged before the step runs */
+  title?: string;
+  /** Logged after the step succeeds */
+  done?: string;
+  /** Logged when an optional step fails */
+  skipped?: string;
+}
+
+export interface CommandStep extends StepMessages {
+  type: "command";
+  command: string;
+  args: string[];
+  cwd: string;
+  env?: Record<string, string>;
+  silent?: boolean;
+  /** A failure is reported and skipped instead of aborting the plan */
+  optional?: boolean;
+  dependencies?: PlannedDependency[];
+}
+
+export interface FileStep extends StepMessages {
+  type: "file";
+  action: "create" | "overwrite";
+  /** Relative to the templates directory */
+  source: string;
+  path: string;
+}
+
+export interface EditStep extends StepMessages {
+  type: "edit";
+  path: string;
+  description: string;
+  edit: (content: string) => string;
+}
+
+export interface MkdirStep extends StepMessages {
+  type: "mkdir";
+  path: string;
+}
+
+export interface MoveStep extends StepMessages {
+  type: "move";
+  from: string;
+  to: string;
+}
+
+export interface RemoveStep extends StepMessages {
+  type: "remove";
+  path: string;
+  /** Keep the directory itself (and its .git) and only remove its contents */
+  contentsOnly?: boolean;
+}
+
+export type PlanStep =
+  | CommandStep
+  | FileStep
+  | EditStep
+  | MkdirStep
+  | MoveStep
+  | RemoveStep;
+
+export interface ScaffoldPlan {
+  /** Project directory, relative to the working directory */
+  root: string;
+  steps: PlanStep[];
+  /** Paths removed when a step fails */
+  cleanup: string[];
+}
+
+export function getPlanDependencies(plan: ScaffoldPlan): PlannedDependency[] {
+  return plan.steps.flatMap((step) =>
+    step.type === "command" ? step.dependencies ?? [] : []
+  );
+}
+
+function describeStep(step: PlanStep) {
+  switch (step.type) {
+    case "command":
+      return `${pc.cyan("$")} ${[step.command, ...step.args].join(" ")} ${pc.dim(`(in ${step.cwd}${step.optional ? ", optional" : ""})`)}`;
+    case "file":
+      return `${step.action === "create" ? pc.green("create") : pc.yellow("overwrite")} ${step.path} ${pc.dim(`(from templates/${step.source})`)}`;
+    case "edit":
+      return `${pc.yellow("edit")} ${step.path} ${pc.dim(`(${step.description})`)}`;
+    case "mkdir":
+      return `${pc.green("mkdir")} ${step.path}`;
+    case "move":
+      return `${pc.yellow("move")} ${step.from} → ${step.to}`;
+    case "remove":
+      return `${pc.red("remove")} ${step.contentsOnly ? `contents of ${step.path}` : step.path}`;
+  }
+}
+
+export function printPlan(plan: ScaffoldPlan) {
+  console.log(`\n${pc.bold("Dry run:")} nothing will be written.\n`);
+  plan.steps.forEach((step, i) => {
+    console.log(`${String(i + 1).padStart(3)}. ${describeStep(step)}`);
+  });
+
+  const dependencies = getPlanDependencies(plan);
+  if (dependencies.length > 0) {
+    console.log(`\n${pc.bold("Dependencies:")}`);
+    for (const dep of dependencies) {
+      console.log(`  ${pc.green("+")} ${dep.name}${dep.dev ? pc.dim(" (dev)") : ""}`);
+    }
+  }
+  console.log();
+}
+
+/**
+ * Serializable form of the plan. Edit steps drop their callback, everything
+ * else is emitted as-is so the output can be diffed across CLI versions.
+ */
+export function planToJson(plan: ScaffoldPlan, cliVersion: string) {
+  return {
+    cliVersion,
+    root: plan.root,
+    steps: plan.steps.map((step) => {
+      if (step.type === "edit") {
+        const { edit, title, done, skipped, ...rest } = step;
+        return rest;
+      }
+      const { title, done, skipped, ...rest } = step;
+      return rest;
+    }),
+    dependencies: getPlanDependencies(plan),
+    cleanup: plan.cleanup,
+  };
+}
+
+export interface PlanReport {
+  added: string[];
+  replaced: string[];
+  /** Optional commands that failed */
+  skipped: string[];
+}
+
+async function runStep(step: PlanStep, report: PlanReport) {
+  switch (step.type) {
+    case "command":
+      await executeCommand(
+        step.command,
+        step.args,
+        { cwd: step.cwd, env: step.env },
+        step.silent
+      );
+      break;
+    case "file": {
+      const exists = fs.existsSync(step.path);
+      fs.mkdirSync(path.dirname(step.path), { recursive: true });
+      fs.copyFileSync(path.join(templatesRoot, step.source), step.path);
+      if (exists) {
+        report.replaced.push(step.path);
+        console.log(`${pc.yellow("↻")} Replaced ${step.path}`);
+      } else {
+        report.added.push(step.path);
+        console.log(`${pc.green("✓")} Added ${step.path}`);
+      }
+      break;
+    }
+    case "edit":
+      editFile(step.path, step.edit);
+      break;
+    case "mkdir":
+      fs.mkdirSync(step.path, { recursive: true });
+      break;
+    case "move":
+      fs.renameSync(step.from, step.to);
+      break;
+    case "remove":
+      if (step.contentsOnly) emptyDir(step.path);
+      else fs.rmSync(step.path, { recursive: true, force: true });
+      break;
+  }
+}
+
+/**
+ * Runs every step in order and reports which template files were added or
+ * replaced and which optional commands were skipped. On failure the plan's cleanup paths are removed before the error
+ * is rethrown.
+ */
+export async function executePlan(plan: ScaffoldPlan): Promise<PlanReport> {
+  const report: PlanReport = { added: [], replaced: [], skipped: [] };
+  try {
+    for (const step of plan.steps) {
+      if (step.title) console.log(step.title);
+      try {
+        await runStep(step, report);
+      } catch (error) {
+        if (step.type !== "command" || !step.optional) throw error;
+        report.skipped.push([step.command, ...step.args].join(" "));
+        if (step.skipped) console.log(step.skipped);
+        continue;
+      }
+      if (step.done) console.log(step.done);
+    }
+    return report;
+  } catch (error) {
+    for (const cleanupPath of plan.cleanup) {
+      if (fs.existsSync(cleanupPath)) {
+        fs.rmSync(cleanupPath, { recursive: true, force: true });
+      }
+    }
+    throw error;
+  }
+}
+
+export function executeCommand(
+  command: string,
+  args: string[],
+  options: {
+    cwd?: string;
+    env?: Record<string, string | undefined>;
+    args?: string[];
+  } = {},
+  silent = false
+) {
+  return new Promise<void>((resolve, reject) => {
+    const finalArgs = options.args ? [...args, ...options.args] : args;
+    const spawnOptions = {
+      cwd: options.cwd,
+      stdio: (silent ? "pipe" : "inherit") as StdioOptions,
+      env: {
+        ...process.env,
+        ...options.env,
+        npm_config_loglevel: silent ? "silent" : "info",
+        npm_config_fund: "false",
+        npm_config_audit: "false",
+        npm_config_update_notifier: "false",
+        NEXT_TELEMETRY_DISABLED: "1",
+        NEXT_PRIVATE_SKIP_SETUP: "1",
+        DEBUG: "",
+        CI: "1",
+        FORCE_COLOR: "0",
+        NO_UPDATE_NOTIFIER: "1",
+      },
+    };
+
+    // Loading animation for all commands
+    let loadingInterval: NodeJS.Timeout | null = null;
+    const dots = ["⣾", "⣽", "⣻", "⢿", "⡿", "⣟", "⣯", "⣷"];
+    let i = 0;
+
+    if (silent && process.stdout.isTTY) {
+      loadingInterval = setInterval(() => {
+        process.stdout.write(`\r${dots[i]}`);
+        i = (i + 1) % dots.length;
+      }, 80);
+    }
+
+    const child = spawn(command, finalArgs, spawnOptions);
+    let stderrOutput = "";
+    let stdoutOutput = "";
+
+    if (silent) {
+      if (child.stderr) {
+        child.stderr.on("data", (data) => {
+          const output = data.toString();
+          if (output.toLowerCase().includes("error")) {
+            stderrOutput += output;
+          }
+        });
+      }
+
+      if (child.stdout) {
+        child.stdout.on("data", (data) => {
+          stdoutOutput += data.toString();
+        });
+      }
+    }
+
+    const stopLoading = () => {
+      if (loadingInterval) {
+        clearInterval(loadingInterval);
+        loadingInterval = null;
+        process.stdout.clearLine(0);
+        process.stdout.cursorTo(0);
+      }
+    };
+
+    // e.g. ENOENT when the package manager is not installed
+    child.on("error", (error) => {
+      stopLoading();
+      reject(new Error(`${command} ${finalArgs.join(" ")} failed to start: ${error.message}`));
+    });
+
+    child.on("close", (code) => {
+      stopLoading();
+
+      if (code !== 0) {
+        if (silent && stderrOutput) {
+          console.error(`\nError running ${command} ${finalArgs.join(" ")}:`);
+          console.error(stderrOutput);
+        }
+        reject(new Error(`${command} ${finalArgs.join(" ")} failed with code ${code}`));
+        return;
+      }
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,199 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import pc from "picocolors";
+
+import { getFrameworkByTemplate } from "./frameworks.js";
+import {
+  type Network,
+  type PackageManager,
+  networks,
+  packageManagers,
+  wallets,
+} from "./options.js";
+import { isValidPackageName } from "./utils.js";
+
+export const defaultPresetFile = "lasereyes.config.json";
+
+export interface Preset {
+  template?: string;
+  packageManager?: PackageManager;
+  network?: Network;
+  wallets?: string[];
+  tailwind?: boolean;
+  shadcn?: boolean;
+  shadcnComponents?: string[];
+  cursorRules?: boolean;
+  dependencies?: string[];
+  devDependencies?: string[];
+  offline?: boolean;
+}
+
+export class PresetError extends Error {
+  constructor(public file: string, public issues: string[]) {
+    super(
+      `${pc.red("✖")} Invalid preset ${file}:\n` +
+        issues.map((issue) => `  - ${issue}`).join("\n")
+    );
+    this.name = "PresetError";
+  }
+}
+
+const presetKeys: (keyof Preset)[] = [
+  "template",
+  "packageManager",
+  "network",
+  "wallets",
+  "tailwind",
+  "shadcn",
+  "shadcnComponents",
+  "cursorRules",
+  "dependencies",
+  "devDependencies",
+  "offline",
+];
+
+function dependencyName(spec: string) {
+  const versionAt = spec.indexOf("@", 1);
+  return versionAt === -1 ? spec : spec.slice(0, versionAt);
+}
+
+function checkStringList(
+  raw: Record<string, any>,
+  key: keyof Preset,
+  issues: string[],
+  check: (value: string) => string | undefined
+) {
+  const value = raw[key];
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    issues.push(`"${key}" must be an array of strings`);
+    return;
+  }
+  value.forEach((item, i) => {
+    if (typeof item !== "string" || !item.trim()) {
+      issues.push(`"${key}[${i}]" must be a non-empty string`);
+      return;
+    }
+    const problem = check(item);
+    if (problem) issues.push(`"${key}[${i}]" ${problem}`);
+  });
+}
+
+function checkBoolean(raw: Record<string, any>, key: keyof Preset, issues: string[]) {
+  if (raw[key] !== undefined && typeof raw[key] !== "boolean") {
+    issues.push(`"${key}" must be true or false`);
+  }
+}
+
+/**
+ * Checks a parsed preset against the schema and returns every problem found,
+ * so users can fix the whole file in one go.
+ */
+export function validatePreset(raw: unknown): string[] {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return ["preset must be a JSON object"];
+  }
+
+  const issues: string[] = [];
+  const preset = raw as Record<string, any>;
+
+  for (const key of Object.keys(preset)) {
+    if (key !== "$schema" && !presetKeys.includes(key as keyof Preset)) {
+      issues.push(`unknown field "${key}"`);
+    }
+  }
+
+  if (preset.template !== undefined) {
+    const found =
+      typeof preset.template === "string"
+        ? getFrameworkByTemplate(preset.template)
+        : undefined;
+    if (!found) {
+      issues.push(`"template" must be one of the available templates`);
+    } else if (found.framework.disabled || found.variant?.disabled) {
+      issues.push(`"template" ${preset.template} is not available yet`);
+    }
+  }
+
+  if (
+    preset.packageManager !== undefined &&
+    !packageManagers.includes(preset.packageManager)
+  ) {
+    issues.push(`"packageManager" must be one of ${packageManagers.join(", ")}`);
+  }
+
+  if (preset.network !== undefined && !networks.includes(preset.network)) {
+    issues.push(`"network" must be one of ${networks.join(", ")}`);
+  }
+
+  checkBoolean(preset, "tailwind", issues);
+  checkBoolean(preset, "shadcn", issues);
+  checkBoolean(preset, "cursorRules", issues);
+  checkBoolean(preset, "offline", issues);
+
+  if (preset.shadcn === true && preset.tailwind === false) {
+    issues.push(`"shadcn" requires "tailwind"`);
+  }
+
+  checkStringList(preset, "wallets", issues, (wallet) =>
+    wallets.includes(wallet as (typeof wallets)[number])
+      ? undefined
+      : `is not a supported wallet (${wallets.join(", ")})`
+  );
+  checkStringList(preset, "shadcnComponents", issues, (component) =>
+    /^[a-z][a-z\d-]*$/.test(component) ? undefined : "is not a component name"
+  );
+  for (const key of ["dependencies", "devDependencies"] as const) {
+    checkStringList(preset, key, issues, (spec) =>
+      isValidPackageName(dependencyName(spec))
+        ? undefined
+        : "is not a valid package name"
+    );
+  }
+
+  return issues;
+}
+
+export function loadPreset(file: string): Preset {
+  const presetPath = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(presetPath)) {
+    throw new PresetError(file, ["file not found"]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(presetPath, "utf-8"));
+  } catch (error: any) {
+    throw new PresetError(file, [`not valid JSON: ${error.message}`]);
+  }
+
+  const issues = validatePreset(raw);
+  if (issues.length > 0) {
+    throw new PresetError(file, issues);
+  }
+  return raw as Preset;
+}
+
+/**
+ * Folds preset values into parsed CLI options. Flags given on the command
+ * line take precedence over the matching preset field.
+ */
+export function applyPreset(
+  options: Record<string, any>,
+  preset: Preset
+): Record<string, any> {
+  const merged: Record<string, any> = { ...options };
+
+  const hasPackageManagerFlag = packageManagers.some((pm) => options[pm]);
+  if (preset.packageManager && !hasPackageManagerFlag) {
+    merged[preset.packageManager] = true;
+  }
+
+  for (const key of presetKeys) {
+    if (key !== "packageManager" && options[key] === undefined && preset[key] !== undefined) {
+      merged[key] = preset[key];
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,766 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import pc from "picocolors";
+
+import {
+  type Network,
+  type PackageManager,
+  type ScaffoldAnswers,
+  getPackageManagerCommand,
+} from "./options.js";
+import type { CommandStep, PlanStep, PlannedDependency, ScaffoldPlan } from "./plan.js";
+import { templatesRoot } from "./utils.js";
+
+const nextTempDir = ".temp-next-app";
+
+// Files create-next-app@14 generates with --ts --app --src-dir
+const nextAppBaseFiles = [
+  ".gitignore",
+  "src/app/page.tsx",
+  "src/app/layout.tsx",
+  "src/app/globals.css",
+  "src/app/favicon.ico",
+];
+
+// Dependencies already in package.json when the template is overlaid
+const nextAppBaseDependencies = [
+  "next",
+  "react",
+  "react-dom",
+  "typescript",
+  "@types/node",
+  "@types/react",
+  "@types/react-dom",
+  "@omnisat/lasereyes",
+];
+
+// Vendored stand-in for create-next-app, used with --offline
+const nextBaseTemplate = "next-base";
+
+// create-next-app adds these with --tailwind
+const nextTailwindDevDependencies: Record<string, string> = {
+  postcss: "^8",
+  tailwindcss: "^3.4.1",
+};
+
+// Install only from the local cache, null when the package manager can't
+const offlineInstallArgs: Record<PackageManager, string[] | null> = {
+  npm: ["install", "--offline"],
+  yarn: ["install", "--offline"],
+  pnpm: ["install", "--offline"],
+  bun: null,
+};
+
+// Files create-vite generates with --template vue-ts
+const vueAppBaseFiles = [
+  ".gitignore",
+  "index.html",
+  "src/App.vue",
+  "src/main.ts",
+  "src/style.css",
+  "src/vite-env.d.ts",
+  "tsconfig.app.json",
+  "vite.config.ts",
+];
+
+// Dependencies already in package.json when the Vue template is overlaid
+const vueAppBaseDependencies = [
+  "vue",
+  "@vitejs/plugin-vue",
+  "@vue/tsconfig",
+  "typescript",
+  "vite",
+  "vue-tsc",
+  "@omnisat/lasereyes-vue",
+];
+
+// Files create-vite generates with --template vanilla-ts
+const vanillaAppBaseFiles = [
+  ".gitignore",
+  "index.html",
+  "src/main.ts",
+  "src/style.css",
+  "src/vite-env.d.ts",
+  "tsconfig.json",
+];
+
+// Dependencies already in package.json when the vanilla template is overlaid
+const vanillaAppBaseDependencies = ["typescript", "vite", "@omnisat/lasereyes-core"];
+
+// Files create-vite generates with --template react-ts
+const reactAppBaseFiles = [
+  ".gitignore",
+  "index.html",
+  "src/App.tsx",
+  "src/index.css",
+  "src/main.tsx",
+  "src/vite-env.d.ts",
+  "tsconfig.app.json",
+  "vite.config.ts",
+];
+
+// Dependencies already in package.json when the React template is overlaid
+const reactAppBaseDependencies = [
+  "react",
+  "react-dom",
+  "@types/react",
+  "@types/react-dom",
+  "@vitejs/plugin-react",
+  "typescript",
+  "vite",
+  "@omnisat/lasereyes",
+];
+
+// Modules other templates reuse from next-app, a trailing slash shares a
+// whole directory
+const sharedTemplateFiles: Record<string, string[]> = {
+  "vue-app": [
+    "src/lib/utils.ts",
+    "src/lib/bitmap-oci.ts",
+    "src/lib/bitmap-oci.worker.ts",
+    "src/lib/bitmap-validator.ts",
+    "src/lib/indexer.ts",
+    "src/lib/networks.ts",
+    "src/lib/persistent-cache.ts",
+    "src/lib/retry.ts",
+    "src/types/index.ts",
+    "src/types/inscriptions.ts",
+    "src/types/ordinals.ts",
+    "mock/",
+    "scripts/oci-snapshot.mjs",
+  ],
+  "vite-vanilla": [
+    "src/lib/utils.ts",
+    "src/lib/bitmap-oci.ts",
+    "src/lib/bitmap-oci.worker.ts",
+    "src/lib/bitmap-validator.ts",
+    "src/lib/indexer.ts",
+    "src/lib/networks.ts",
+    "src/lib/persistent-cache.ts",
+    "src/lib/retry.ts",
+    "mock/",
+    "scripts/oci-snapshot.mjs",
+  ],
+  "vite-react": [
+    "src/components/ConnectWallet.tsx",
+    "src/components/InscriptionsList.tsx",
+    "src/components/ThemeToggle.tsx",
+    "src/components/UtxoFilter.tsx",
+    "src/components/ValidationDetailsPopover.tsx",
+    "src/components/ValidationStatusIndicator.tsx",
+    "src/components/ui/",
+    "src/hooks/",
+    "src/lib/",
+    "src/types/",
+    "mock/",
+    "scripts/oci-snapshot.mjs",
+  ],
+};
+
+const nextEnv = {
+  npm_config_loglevel: "error",
+  npm_config_fund: "false",
+  npm_config_audit: "false",
+  npm_config_update_notifier: "false",
+  NEXT_TELEMETRY_DISABLED: "1",
+  NEXT_PRIVATE_SKIP_SETUP: "1",
+  FORCE_COLOR: "0",
+  CI: "1",
+};
+
+function installStep(
+  answers: ScaffoldAnswers,
+  cwd: string,
+  packages: string[],
+  dev = false
+): CommandStep {
+  const { packageManager } = answers;
+  return {
+    type: "command",
+    command: packageManager,
+    args: getPackageManagerCommand(packageManager, dev ? "installDev" : "install").concat(packages),
+    cwd,
+    silent: true,
+    dependencies: packages.map((name) => ({ name, dev })),
+  };
+}
+
+function extraDependencySteps(answers: ScaffoldAnswers, cwd: string): CommandStep[] {
+  const { dependencies, devDependencies } = answers;
+  const steps: CommandStep[] = [];
+
+  if (dependencies.length > 0) {
+    steps.push({
+      ...installStep(answers, cwd, dependencies),
+      title: `\nInstalling ${dependencies.join(", ")}...`,
+      done: `${pc.green("✓")} Extra dependencies installed`,
+    });
+  }
+
+  if (devDependencies.length > 0) {
+    steps.push({
+      ...installStep(answers, cwd, devDependencies, true),
+      title: `\nInstalling ${devDependencies.join(", ")} as dev dependencies...`,
+      done: `${pc.green("✓")} Extra dev dependencies installed`,
+    });
+  }
+
+  return steps;
+}
+
+export interface TemplateFile {
+  /** Relative to the templates directory */
+  source: string;
+  /** Relative to the project root, after renameFiles is applied */
+  target: string;
+}
+
+const renameFiles: Record<string, string | undefined> = {
+  _gitignore: ".gitignore",
+  "_env.local": ".env.local",
+  _npmrc: ".npmrc",
+};
+
+// Never copied as-is: merged, or only used by the CLI and the template's own
+// test suite, which would otherwise join the app's type-check and build
+const manifestIgnore = ["package.json", "vitest.config.ts", "test/"];
+
+function isIgnored(file: string) {
+  return manifestIgnore.some((entry) =>
+    entry.endsWith("/") ? file.startsWith(entry) : file === entry
+  );
+}
+
+function walkTemplate(dir: string, relDir = ""): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(path.join(dir, relDir), { withFileTypes: true })) {
+    const relPath = path.posix.join(relDir, entry.name);
+    if (entry.isDirectory()) files.push(...walkTemplate(dir, relPath));
+    else files.push(relPath);
+  }
+  return files;
+}
+
+function sharedFiles(template: string): string[] {
+  return (sharedTemplateFiles[template] ?? []).flatMap((entry) =>
+    entry.endsWith("/")
+      ? walkTemplate(path.join(templatesRoot, "next-app"), entry.slice(0, -1))
+      : [entry]
+  );
+}
+
+/**
+ * Lists every file in a template directory with its destination path,
+ * dropping files that only apply to options the user turned off.
+ */
+export function buildTemplateManifest(
+  template: string,
+  answers: Pick<ScaffoldAnswers, "installTailwind" | "installShadcn" | "addCursorRules">
+): TemplateFile[] {
+  const conditionalFiles: Record<string, boolean> = {
+    "tailwind.config.ts": answers.installTailwind,
+    "postcss.config.js": answers.installTailwind,
+    "components.json": answers.installShadcn,
+    ".cursorrules": answers.addCursorRules,
+  };
+
+  const files = walkTemplate(path.join(templatesRoot, template))
+    .filter((file) => !isIgnored(file))
+    .filter((file) => conditionalFiles[file] ?? true)
+    .map((file) => {
+      const name = path.posix.basename(file);
+      const renamed = renameFiles[name];
+      return {
+        source: path.posix.join(template, file),
+        target: renamed ? path.posix.join(path.posix.dirname(file), renamed) : file,
+      };
+    });
+
+  for (const file of sharedFiles(template)) {
+    if (!files.some((entry) => entry.target === file)) {
+      files.push({ source: path.posix.join("next-app", file), target: file });
+    }
+  }
+
+  return files.sort((a, b) => (a.target < b.target ? -1 : a.target > b.target ? 1 : 0));
+}
+
+/**
+ * Finds the templates-relative source of a file in a generated project,
+ * looking in the template itself first and then in the files it shares.
+ */
+export function resolveTemplateFile(template: string, file: string): string | undefined {
+  const own = path.posix.join(template, file);
+  if (fs.statSync(path.join(templatesRoot, own), { throwIfNoEntry: false })?.isFile()) {
+    return own;
+  }
+  return sharedFiles(template).includes(file)
+    ? path.posix.join("next-app", file)
+    : undefined;
+}
+
+function templateFileSteps(root: string, files: TemplateFile[], baseFiles: string[]): PlanStep[] {
+  const steps: PlanStep[] = [];
+  for (const file of files) {
+    if (!fs.existsSync(path.join(templatesRoot, file.source))) {
+      console.warn(`Template file not found: ${file.source}`);
+      continue;
+    }
+    steps.push({
+      type: "file",
+      action: baseFiles.includes(file.target) ? "overwrite" : "create",
+      source: file.source,
+      path: path.join(root, file.target),
+    });
+  }
+  return steps;
+}
+
+function readTemplatePackageJson(template: string): Record<string, any> {
+  const pkgPath = path.join(templatesRoot, template, "package.json");
+  return JSON.parse(fs.readFileSync(pkgPath, "utf-8"));
+}
+
+/**
+ * Adds template scripts and dependencies missing from the generated
+ * package.json. Scripts and versions already chosen by the generator are kept.
+ */
+export function mergePackageJson(content: string, templatePkg: Record<string, any>) {
+  const pkg = JSON.parse(content);
+  for (const field of ["scripts", "dependencies", "devDependencies"] as const) {
+    const additions = templatePkg[field] ?? {};
+    pkg[field] = { ...additions, ...pkg[field] };
+  }
+  return JSON.stringify(pkg, null, 2) + "\n";
+}
+
+function enabledWalletsStep(file: string, wallets: string[]): PlanStep {
+  return {
+    type: "edit",
+    path: file,
+    description: `wallets: ${wallets.join(", ")}`,
+    edit: (content) =>
+      content.replace(
+        "const ENABLED_WALLETS = null as string[] | null;",
+        `const ENABLED_WALLETS = ${JSON.stringify(wallets)} as string[] | null;`
+      ),
+  };
+}
+
+/**
+ * Points the template's src/lib/network.ts and .env.local at the selected
+ * network. Both default to mainnet.
+ */
+function networkSteps(root: string, network: Network, envPrefix: string): PlanStep[] {
+  if (network === "mainnet") return [];
+  return [
+    {
+      type: "edit",
+      path: path.join(root, "src/lib/network.ts"),
+      description: `network: ${network}`,
+      edit: (content) =>
+        content.replace(
+          'const DEFAULT_NETWORK: NetworkName = "mainnet";',
+          `const DEFAULT_NETWORK: NetworkName = "${network}";`
+        ),
+    },
+    {
+      type: "edit",
+      path: path.join(root, ".env.local"),
+      description: `${envPrefix}NETWORK=${network}`,
+      edit: (content) =>
+        content.replace(`${envPrefix}NETWORK=mainnet`, `${envPrefix}NETWORK=${network}`),
+    },
+  ];
+}
+
+function newTemplateDependencies(
+  templatePkg: Record<string, any>,
+  baseDependencies: string[]
+): PlannedDependency[] {
+  return [
+    ...Object.keys(templatePkg.dependencies ?? {})
+      .filter((name) => !baseDependencies.includes(name))
+      .map((name) => ({ name, dev: false })),
+    ...Object.keys(templatePkg.devDependencies ?? {})
+      .filter((name) => !baseDependencies.includes(name))
+      .map((name) => ({ name, dev: true })),
+  ];
+}
+
+function shadcnCommand(answers: ScaffoldAnswers, cwd: string, args: string[]): CommandStep {
+  const { packageManager } = answers;
+  const isYarnV1 =
+    packageManager === "yarn" &&
+    process.env.npm_config_user_agent?.includes("yarn/1");
+
+  const [command, ...prefix] =
+    packageManager === "npm" || isYarnV1
+      ? ["npx"]
+      : [packageManager, ...getPackageManagerCommand(packageManager, "execDirect")];
+
+  return {
+    type: "command",
+    command,
+    args: [...prefix, "shadcn@2.3", ...args],
+    cwd,
+    env: { ...nextEnv, SKIP_INSTRUCTIONS: "1" },
+    silent: true,
+  };
+}
+
+function createNextAppSteps(answers: ScaffoldAnswers): PlanStep[] {
+  const { targetDir, packageManager, installTailwind, installShadcn, shadcnComponents } = answers;
+  const projectName = path.basename(path.resolve(targetDir));
+  const projectPath = path.join(nextTempDir, projectName);
+
+  const commonFlags = [
+    "--ts",
+    "--eslint",
+    "--app",
+    "--src-dir",
+    "--import-alias", "@/*",
+    installTailwind ? "--tailwind" : "--no-tailwind",
+    "--no-git",
+    "--yes"
+  ];
+
+  let execCommand: string[];
+  let args: string[];
+  if (packageManager === "bun") {
+    execCommand = ["bun"];
+    args = ["create", "next-app@14", ".", ...commonFlags];
+  } else if (packageManager === "yarn") {
+    // For yarn, use npx with --use-yarn flag
+    execCommand = ["npx"];
+    args = ["create-next-app@14", ".", "--use-yarn", ...commonFlags];
+  } else if (packageManager === "pnpm") {
+    execCommand = ["pnpm", "dlx"];
+    args = ["create-next-app@14", ".", ...commonFlags];
+  } else {
+    execCommand = ["npx"];
+    args = ["create-next-app@14", ".", ...commonFlags];
+  }
+
+  const steps: PlanStep[] = [
+    { type: "remove", path: nextTempDir, title: "\nCreating new Next.js app..." },
+    { type: "mkdir", path: projectPath },
+    {
+      type: "command",
+      command: execCommand[0],
+      args: execCommand.slice(1).concat(args),
+      cwd: projectPath,
+      env: nextEnv,
+      silent: true,
+      title: `\nCreating Next.js app using ${packageManager}...`,
+    },
+    { type: "move", from: projectPath, to: targetDir },
+    {
+      type: "remove",
+      path: nextTempDir,
+      done: `\n${pc.green("✔")} Created Next.js app at ${targetDir}`,
+    },
+  ];
+
+  steps.push({
+    ...installStep(answers, targetDir, ["@omnisat/lasereyes@latest"]),
+    title: "\nInstalling @omnisat/lasereyes...",
+    done: `${pc.green("✓")} @omnisat/lasereyes installed!\n`,
+  });
+  steps.push(...extraDependencySteps(answers, targetDir));
+
+  // Shadcn runs before the overlay so the template's own ui/ and lib/ files win
+  if (installShadcn) {
+    steps.push({
+      ...shadcnCommand(answers, targetDir, ["init", "--yes", "--defaults"]),
+      title: "\nInitializing Shadcn...",
+      done: `${pc.green("✓")} Shadcn initialized successfully!`,
+    });
+    for (const component of shadcnComponents) {
+      steps.push({
+        ...shadcnCommand(answers, targetDir, ["add", component, "--yes"]),
+        title: `\nAdding ${component} component...`,
+        done: `${pc.green("✓")} ${component} installed`,
+      });
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Fields folded into package.json offline, where create-next-app and
+ * `add` commands can't fill them in.
+ */
+function offlinePackageJson(answers: ScaffoldAnswers) {
+  const toRecord = (specs: string[]) =>
+    Object.fromEntries(
+      specs.map((spec) => {
+        const versionAt = spec.indexOf("@", 1);
+        return versionAt === -1
+          ? [spec, "latest"]
+          : [spec.slice(0, versionAt), spec.slice(versionAt + 1)];
+      })
+    );
+  return {
+    name: path.basename(path.resolve(answers.targetDir)),
+    dependencies: toRecord(answers.dependencies),
+    devDependencies: {
+      ...(answers.installTailwind ? nextTailwindDevDependencies : {}),
+      ...toRecord(answers.devDependencies),
+    },
+  };
+}
+
+/**
+ * Offline counterpart of createNextAppSteps: the base project comes from the
+ * vendored skeleton and Shadcn components from the template's own ui/ copies.
+ */
+function offlineNextBaseSteps(answers: ScaffoldAnswers): PlanStep[] {
+  const { targetDir, installShadcn, shadcnComponents } = answers;
+
+  if (installShadcn) {
+    const bundled = path.join(templatesRoot, "next-app", "src/components/ui");
+    const missing = shadcnComponents.filter(
+      (component) => !fs.existsSync(path.join(bundled, `${component}.tsx`))
+    );
+    if (missing.length > 0) {
+      console.warn(
+        `${pc.yellow("!")} No bundled copy of ${missing.join(", ")}, add ${missing.length > 1 ? "them" : "it"} with shadcn once online`
+      );
+    }
+  }
+
+  const steps: PlanStep[] = [
+    { type: "mkdir", path: targetDir, title: "\nCreating new Next.js app from the offline skeleton..." },
+    {
+      type: "file",
+      action: "create",
+      source: path.join(nextBaseTemplate, "package.json"),
+      path: path.join(targetDir, "package.json"),
+    },
+    {
+      type: "edit",
+      path: path.join(targetDir, "package.json"),
+      description: "set name, add Tailwind and extra dependencies",
+      edit: (content) => {
+        const { name, ...fields } = offlinePackageJson(answers);
+        return mergePackageJson(content.replace(/"name": ".*?"/, `"name": "${name}"`), fields);
+      },
+    },
+    ...templateFileSteps(
+      targetDir,
+      buildTemplateManifest(nextBaseTemplate, answers),
+      []
+    ),
+  ];
+  steps[steps.length - 1].done = `\n${pc.green("✔")} Created Next.js app at ${targetDir}`;
+  return steps;
+}
+
+export function buildNextAppPlan(answers: ScaffoldAnswers): ScaffoldPlan {
+  const { targetDir, packageManager, installTailwind, installShadcn, addCursorRules, network, wallets, shadcnComponents, offline } = answers;
+
+  const steps = offline ? offlineNextBaseSteps(answers) : createNextAppSteps(answers);
+
+  const baseFiles = offline
+    ? []
+    : [
+        ...nextAppBaseFiles,
+        ...(installTailwind ? ["tailwind.config.ts"] : []),
+        ...(installShadcn
+          ? ["src/lib/utils.ts", ...shadcnComponents.map((c) => `src/components/ui/${c}.tsx`)]
+          : []),
+      ];
+  const manifest = buildTemplateManifest("next-app", answers);
+  if (addCursorRules && !manifest.some((entry) => entry.target === ".cursorrules")) {
+    console.warn(`.cursorrules not found in template`);
+  }
+  const overlaySteps = templateFileSteps(targetDir, manifest, baseFiles);
+  if (overlaySteps.length > 0) overlaySteps[0].title = "\nCustomizing template...";
+  steps.push(...overlaySteps);
+
+  // Apply network and wallet choices
+  steps.push(...networkSteps(targetDir, network, "NEXT_PUBLIC_"));
+  if (wallets) {
+    steps.push(enabledWalletsStep(path.join(targetDir, "src/components/ConnectWallet.tsx"), wallets));
+  }
+
+  const templatePkg = readTemplatePackageJson("next-app");
+  steps.push({
+    type: "edit",
+    path: path.join(targetDir, "package.json"),
+    description: "merge scripts and dependencies from templates/next-app/package.json",
+    edit: (content) => mergePackageJson(content, templatePkg),
+  });
+  const basePkg = offline ? readTemplatePackageJson(nextBaseTemplate) : undefined;
+  const baseDependencies = basePkg
+    ? [...Object.keys(basePkg.dependencies), ...Object.keys(basePkg.devDependencies)]
+    : nextAppBaseDependencies;
+  const templateDependencies = newTemplateDependencies(templatePkg, baseDependencies);
+
+  if (!offline) {
+    steps.push({
+      type: "command",
+      command: packageManager,
+      args: ["install"],
+      cwd: targetDir,
+      silent: true,
+      dependencies: templateDependencies,
+      title: "\nInstalling template dependencies...",
+      done: `${pc.green("✓")} Template dependencies installed`,
+    });
+  } else if (offlineInstallArgs[packageManager]) {
+    const { dependencies, devDependencies } = offlinePackageJson(answers);
+    steps.push({
+      type: "command",
+      command: packageManager,
+      args: offlineInstallArgs[packageManager]!,
+      cwd: targetDir,
+      silent: true,
+      dependencies: [
+        ...templateDependencies,
+        ...Object.keys(dependencies).map((name) => ({ name, dev: false })),
+        ...Object.keys(devDependencies).map((name) => ({ name, dev: true })),
+      ],
+      optional: true,
+      skipped: `${pc.yellow("!")} Some packages are missing from the ${packageManager} cache, skipped installing dependencies`,
+      title: `\nInstalling dependencies from the ${packageManager} cache...`,
+      done: `${pc.green("✓")} Dependencies installed`,
+    });
+  }
+
+  return { root: targetDir, steps, cleanup: offline ? [] : [nextTempDir] };
+}
+
+interface ViteVariant {
+  template: string;
+  /** create-vite template generated before the overlay */
+  viteTemplate: string;
+  displayName: string;
+  lasereyesPackage: string;
+  baseFiles: string[];
+  baseDependencies: string[];
+  /** create-vite demo files the template has no use for */
+  removeFiles: string[];
+  /** File holding the ENABLED_WALLETS list */
+  walletsFile: string;
+}
+
+const viteVariants: Record<string, ViteVariant> = {
+  "vite-react": {
+    template: "vite-react",
+    viteTemplate: "react-ts",
+    displayName: "React",
+    lasereyesPackage: "@omnisat/lasereyes",
+    baseFiles: reactAppBaseFiles,
+    baseDependencies: reactAppBaseDependencies,
+    removeFiles: ["src/App.css", "src/assets/react.svg"],
+    walletsFile: "src/components/ConnectWallet.tsx",
+  },
+  "vue-app": {
+    template: "vue-app",
+    viteTemplate: "vue-ts",
+    displayName: "Vue",
+    lasereyesPackage: "@omnisat/lasereyes-vue",
+    baseFiles: vueAppBaseFiles,
+    baseDependencies: vueAppBaseDependencies,
+    removeFiles: ["src/components/HelloWorld.vue"],
+    walletsFile: "src/components/ConnectWallet.vue",
+  },
+  "vite-vanilla": {
+    template: "vite-vanilla",
+    viteTemplate: "vanilla-ts",
+    displayName: "Vite",
+    lasereyesPackage: "@omnisat/lasereyes-core",
+    baseFiles: vanillaAppBaseFiles,
+    baseDependencies: vanillaAppBaseDependencies,
+    removeFiles: ["src/counter.ts", "src/typescript.svg"],
+    walletsFile: "src/ui/walletModal.ts",
+  },
+};
+
+/**
+ * Generates a project with create-vite and overlays the variant's template
+ * on top of it.
+ */
+export function buildVitePlan(answers: ScaffoldAnswers): ScaffoldPlan {
+  const { targetDir, packageManager, network, wallets } = answers;
+  const variant = viteVariants[answers.variant];
+
+  const steps: PlanStep[] = [
+    {
+      type: "command",
+      command: packageManager,
+      args: [
+        ...getPackageManagerCommand(packageManager, "create"),
+        "vite@latest",
+        targetDir,
+        "--",
+        "--template",
+        variant.viteTemplate,
+      ],
+      cwd: ".",
+      title: `\nCreating new ${variant.displayName} app...`,
+    },
+    {
+      ...installStep(answers, targetDir, [`${variant.lasereyesPackage}@latest`]),
+      title: `\nInstalling ${variant.lasereyesPackage}...`,
+      done: `${pc.green("✓")} ${variant.lasereyesPackage} installed!`,
+    },
+    ...extraDependencySteps(answers, targetDir),
+    // Replaced by the template's own modules
+    ...variant.removeFiles.map(
+      (file): PlanStep => ({ type: "remove", path: path.join(targetDir, file) })
+    ),
+  ];
+
+  const templateSteps = templateFileSteps(
+    targetDir,
+    buildTemplateManifest(variant.template, answers),
+    variant.baseFiles
+  );
+  if (templateSteps.length > 0) templateSteps[0].title = "\nCustomizing template...";
+  steps.push(...templateSteps);
+
+  steps.push(...networkSteps(targetDir, network, "VITE_"));
+  if (wallets) {
+    steps.push(enabledWalletsStep(path.join(targetDir, variant.walletsFile), wallets));
+  }
+
+  const templatePkg = readTemplatePackageJson(variant.template);
+  steps.push({
+    type: "edit",
+    path: path.join(targetDir, "package.json"),
+    description: `merge scripts and dependencies from templates/${variant.template}/package.json`,
+    edit: (content) => mergePackageJson(content, templatePkg),
+  });
+  steps.push({
+    type: "command",
+    command: packageManager,
+    args: ["install"],
+    cwd: targetDir,
+    silent: true,
+    dependencies: newTemplateDependencies(templatePkg, variant.baseDependencies),
+    title: "\nInstalling template dependencies...",
+    done: `${pc.green("✓")} Template dependencies installed`,
+  });
+
+  return { root: targetDir, steps, cleanup: [] };
+}
+
+export function buildPlan(answers: ScaffoldAnswers): ScaffoldPlan {
+  if (answers.offline && answers.variant !== "next-app") {
+    throw new Error(`${pc.red("✖")} --offline is only supported for next-app`);
+  }
+
+  let plan: ScaffoldPlan;
+  if (answers.variant === "next-app") plan = buildNextAppPlan(answers);
+  else if (viteVariants[answers.variant]) plan = buildVitePlan(answers);
+  else throw new Error(`${pc.red("✖")} Unsupported template: ${answers.variant}`);
+
+  if (answers.overwrite) {
+    plan.steps.unshift({ type: "remove", path: answers.targetDir, contentsOnly: true });
+  }
+  return plan;
+}
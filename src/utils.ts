@@ -1,7 +1,15 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { fileURLToPath } from "node:url";
 import spawn from "cross-spawn";
 
+export const templatesRoot = path.resolve(
+  fileURLToPath(import.meta.url),
+  "..",
+  "..",
+  "templates"
+);
+
 export function formatTargetDir(targetDir: string | undefined) {
   return targetDir?.trim().replace(/\/+$/g, "");
 }
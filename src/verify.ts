@@ -0,0 +1,235 @@
+import * as path from "node:path";
+import spawn from "cross-spawn";
+import pc from "picocolors";
+
+import { type ScaffoldAnswers, getPackageManagerCommand } from "./options.js";
+import type { ScaffoldPlan } from "./plan.js";
+
+export interface Diagnostic {
+  phase: "typecheck" | "build";
+  /** Relative to the project root */
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+  /** Template file that produced `file`, relative to the templates directory */
+  templateFile?: string;
+}
+
+export interface VerifyResult {
+  ok: boolean;
+  diagnostics: Diagnostic[];
+}
+
+function captureCommand(command: string, args: string[], cwd: string) {
+  return new Promise<{ code: number | null; output: string }>((resolve) => {
+    const child = spawn(command, args, {
+      cwd,
+      stdio: ["ignore", "pipe", "pipe"],
+      env: {
+        ...process.env,
+        CI: "1",
+        FORCE_COLOR: "0",
+        NEXT_TELEMETRY_DISABLED: "1",
+      },
+    });
+    let output = "";
+    child.stdout?.on("data", (data) => (output += data.toString()));
+    child.stderr?.on("data", (data) => (output += data.toString()));
+    child.on("error", (error) => resolve({ code: 1, output: error.message }));
+    child.on("close", (code) => resolve({ code, output }));
+  });
+}
+
+function execArgs(answers: ScaffoldAnswers, bin: string, args: string[]) {
+  const { packageManager } = answers;
+  const exec = getPackageManagerCommand(packageManager, "exec");
+  // npm exec needs a separator so flags reach the binary
+  return packageManager === "npm"
+    ? [...exec, "--", bin, ...args]
+    : [...exec, bin, ...args];
+}
+
+function normalizeFile(root: string, file: string) {
+  const absolute = path.resolve(root, file);
+  return path.relative(root, absolute).split(path.sep).join("/");
+}
+
+// src/app/page.tsx(12,5): error TS2307: Cannot find module '...'
+export function parseTscOutput(root: string, output: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const line of output.split("\n")) {
+    const match = line.match(/^(.+?)\((\d+),(\d+)\): error (TS\d+: .*)$/);
+    if (!match) continue;
+    diagnostics.push({
+      phase: "typecheck",
+      file: normalizeFile(root, match[1]),
+      line: Number(match[2]),
+      column: Number(match[3]),
+      message: match[4].trim(),
+    });
+  }
+  return diagnostics;
+}
+
+// ./src/app/page.tsx:12:5
+// Type error: Cannot find module '...'
+export function parseNextBuildOutput(root: string, output: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const lines = output.split("\n");
+  lines.forEach((line, i) => {
+    const match = line.trim().match(/^\.\/(\S+?)(?::(\d+):(\d+))?$/);
+    if (!match) return;
+    const message = lines.slice(i + 1).find((next) => next.trim())?.trim();
+    if (!message) return;
+    diagnostics.push({
+      phase: "build",
+      file: normalizeFile(root, match[1]),
+      line: match[2] ? Number(match[2]) : undefined,
+      column: match[3] ? Number(match[3]) : undefined,
+      message,
+    });
+  });
+  return diagnostics;
+}
+
+// [vite]: Rollup failed to resolve import "x" from "/abs/src/App.vue".
+// file: /abs/src/App.vue:3:8
+export function parseViteBuildOutput(root: string, output: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const lines = output.split("\n");
+  const message =
+    lines.find((line) => /error/i.test(line) && !line.startsWith("file:"))?.trim() ??
+    "vite build failed";
+  for (const line of lines) {
+    const match = line.trim().match(/^file: (.+?)(?::(\d+):(\d+))?$/);
+    if (!match) continue;
+    diagnostics.push({
+      phase: "build",
+      file: normalizeFile(root, match[1]),
+      line: match[2] ? Number(match[2]) : undefined,
+      column: match[3] ? Number(match[3]) : undefined,
+      message,
+    });
+  }
+  return diagnostics;
+}
+
+function lastErrorLine(output: string) {
+  const lines = output.split("\n").map((line) => line.trim()).filter(Boolean);
+  return lines.reverse().find((line) => /error/i.test(line)) ?? lines[0] ?? "failed";
+}
+
+/**
+ * create-vite's root tsconfig.json only holds project references with
+ * `"files": []`, so vite projects are checked in build mode, and vue-tsc is
+ * the only checker that reads .vue files.
+ */
+function typecheckCommand(variant: string): [string, string[]] {
+  switch (variant) {
+    case "next-app":
+      return ["tsc", ["--noEmit", "--pretty", "false"]];
+    case "vue-app":
+      return ["vue-tsc", ["-b", "--pretty", "false"]];
+    default:
+      return ["tsc", ["-b", "--pretty", "false"]];
+  }
+}
+
+/**
+ * Type-checks and builds the generated project, attributing every failure to
+ * the template file that wrote the offending source file.
+ */
+export async function verifyProject(
+  answers: ScaffoldAnswers,
+  plan: ScaffoldPlan
+): Promise<VerifyResult> {
+  const root = path.resolve(answers.targetDir);
+  const { packageManager, variant } = answers;
+
+  const templateFiles = new Map<string, string>();
+  for (const step of plan.steps) {
+    if (step.type === "file") {
+      templateFiles.set(normalizeFile(root, path.resolve(step.path)), step.source);
+    }
+  }
+
+  const diagnostics: Diagnostic[] = [];
+
+  console.log("\nType-checking generated project...");
+  const [checker, checkerArgs] = typecheckCommand(variant);
+  const tsc = await captureCommand(packageManager, execArgs(answers, checker, checkerArgs), root);
+  if (tsc.code !== 0) {
+    const found = parseTscOutput(root, tsc.output);
+    diagnostics.push(
+      ...(found.length > 0
+        ? found
+        : [{ phase: "typecheck" as const, message: lastErrorLine(tsc.output) }])
+    );
+    console.log(`${pc.red("✖")} Type-check failed`);
+  } else {
+    console.log(`${pc.green("✓")} Type-check passed`);
+  }
+
+  const isVite = variant !== "next-app";
+  console.log(`\nBuilding generated project with ${isVite ? "vite" : "next"}...`);
+  const build = await captureCommand(
+    packageManager,
+    execArgs(answers, isVite ? "vite" : "next", ["build"]),
+    root
+  );
+  if (build.code !== 0) {
+    const found = isVite
+      ? parseViteBuildOutput(root, build.output)
+      : parseNextBuildOutput(root, build.output);
+    diagnostics.push(
+      ...(found.length > 0
+        ? found
+        : [{ phase: "build" as const, message: lastErrorLine(build.output) }])
+    );
+    console.log(`${pc.red("✖")} Build failed`);
+  } else {
+    console.log(`${pc.green("✓")} Build passed`);
+  }
+
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.file) diagnostic.templateFile = templateFiles.get(diagnostic.file);
+  }
+
+  return { ok: diagnostics.length === 0, diagnostics };
+}
+
+function truncate(text: string, width: number) {
+  return text.length > width ? text.slice(0, width - 1) + "…" : text;
+}
+
+export function printVerifySummary(result: VerifyResult) {
+  if (result.ok) {
+    console.log(`\n${pc.green("✓")} Verification passed`);
+    return;
+  }
+
+  const rows = result.diagnostics.map((d) => [
+    d.phase,
+    d.templateFile ? `templates/${d.templateFile}` : "(generated)",
+    d.file ? `${d.file}${d.line ? `:${d.line}:${d.column ?? 0}` : ""}` : "-",
+    d.message,
+  ]);
+  const header = ["Phase", "Template file", "Location", "Message"];
+  const widths = header.map((title, i) =>
+    Math.min(i === 3 ? 80 : 60, Math.max(title.length, ...rows.map((row) => row[i].length)))
+  );
+  const format = (row: string[]) =>
+    row
+      .map((cell, i) => {
+        const text = truncate(cell, widths[i]);
+        return i === row.length - 1 ? text : text.padEnd(widths[i]);
+      })
+      .join("  ");
+
+  console.log(`\n${pc.red("✖")} Verification failed with ${rows.length} problem(s):\n`);
+  console.log(pc.bold(format(header)));
+  console.log(widths.map((w) => "-".repeat(w)).join("  "));
+  for (const row of rows) console.log(format(row));
+  console.log();
+}
@@ -0,0 +1,247 @@
+#!/usr/bin/env node
+// Fixture-backed stand-in for an ord server and a mempool/Esplora API, so the
+// app and the bitmap validators can run without network access.
+//
+//   npm run mock -- [--port 3080] [--fixtures mock/fixtures.json]
+//
+// Then point src/lib/network.ts at it from .env.local:
+//
+//   NEXT_PUBLIC_ORD_URL=http://localhost:3080      (VITE_ORD_URL in Vite apps)
+//   NEXT_PUBLIC_MEMPOOL_HOST=localhost:3080        (VITE_MEMPOOL_HOST)
+//
+// fixtures.json holds:
+//   addresses     address -> outpoints, "*" answers for any other address
+//   utxos         outpoint -> { value, inscriptions, runes, status, sat_ranges? }
+//   inscriptions  id -> ord's /r/inscription fields plus `content` and `parents`
+//   blocks        height -> { hash, transaction_count, timestamp }
+//   bitmaps       bitmap number -> inscription id, used to build the OCI pages
+
+import * as fs from "node:fs";
+import * as http from "node:http";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Same order as allPages in src/lib/bitmap-oci.ts
+const ociPageIds = [
+  "01bba6c58af39d7f199aa2bceeaaba1ba91b23d2663bc4ef079a4b5e442dbf74i0",
+  "bb01dfa977a5cd0ee6e900f1d1f896b5ec4b1e3c7b18f09c952f25af6591809fi0",
+  "bb02e94f3062facf6aa2e47eeed348d017fd31c97614170dddb58fc59da304efi0",
+  "bb037ec98e6700e8415f95d1f5ca1fe1ba23a3f0c5cb7284d877e9ac418d0d32i0",
+  "bb9438f4345f223c6f4f92adf6db12a82c45d1724019ecd7b6af4fcc3f5786cei0",
+  "bb0542d4606a9e7eb4f31051e91f7696040db06ca1383dff98505618c34d7df7i0",
+  "bb06a4dffba42b6b513ddee452b40a67688562be4a1345127e4d57269e6b2ab6i0",
+  "bb076934c1c22007b315dd1dc0f8c4a2f9d52f348320cfbadc7c0bd99eaa5e18i0",
+  "bb986a1208380ec7db8df55a01c88c73a581069a51b5a2eb2734b41ba10b65c2i0",
+];
+
+const PAGE_SIZE = 100000;
+// ord's page size for /r/children
+const CHILDREN_PAGE_SIZE = 100;
+
+function parseArgs(argv) {
+  const args = { port: Number(process.env.PORT) || 3080, fixtures: undefined };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--port") args.port = Number(argv[++i]);
+    else if (argv[i] === "--fixtures") args.fixtures = argv[++i];
+  }
+  return args;
+}
+
+export function loadFixtures(file) {
+  const fixtures = JSON.parse(fs.readFileSync(file, "utf-8"));
+  return {
+    addresses: fixtures.addresses ?? {},
+    utxos: fixtures.utxos ?? {},
+    inscriptions: fixtures.inscriptions ?? {},
+    blocks: fixtures.blocks ?? {},
+    bitmaps: fixtures.bitmaps ?? {},
+  };
+}
+
+function byNumber(fixtures) {
+  return (a, b) => fixtures.inscriptions[a].number - fixtures.inscriptions[b].number;
+}
+
+function childrenOf(fixtures, parentId) {
+  return Object.keys(fixtures.inscriptions)
+    .filter((id) => fixtures.inscriptions[id].parents?.includes(parentId))
+    .sort(byNumber(fixtures));
+}
+
+function inscriptionsOnSat(fixtures, sat) {
+  return Object.keys(fixtures.inscriptions)
+    .filter((id) => fixtures.inscriptions[id].sat === sat)
+    .sort(byNumber(fixtures));
+}
+
+/**
+ * Builds an OCI page in the format bitmap-oci.ts parses: sat deltas in sat
+ * order plus the bitmap index of each sat. Pages 2 and 3 are flat lists of
+ * 100,000 deltas followed by 100,000 indices on ordinals.com, so they are
+ * padded to full length.
+ */
+function ociPage(fixtures, page) {
+  const entries = Object.entries(fixtures.bitmaps)
+    .map(([bitmap, id]) => ({ bitmap: Number(bitmap), sat: fixtures.inscriptions[id]?.sat }))
+    .filter((entry) => Math.floor(entry.bitmap / PAGE_SIZE) === page && entry.sat !== undefined)
+    .sort((a, b) => a.sat - b.sat);
+
+  const deltas = entries.map((entry, i) => (i === 0 ? entry.sat : entry.sat - entries[i - 1].sat));
+  const indices = entries.map((entry) => entry.bitmap % PAGE_SIZE);
+
+  if (page !== 2 && page !== 3) return JSON.stringify([deltas, indices]);
+
+  const used = new Set(indices);
+  for (let index = 0; deltas.length < PAGE_SIZE; index++) {
+    if (used.has(index)) continue;
+    deltas.push(0);
+    indices.push(index);
+  }
+  return [...deltas, ...indices].join(",");
+}
+
+function inscriptionJson(id, inscription) {
+  const { content, parents, ...fields } = inscription;
+  return {
+    id,
+    content_length: content === undefined ? 0 : Buffer.byteLength(content),
+    parents: parents ?? [],
+    ...fields,
+  };
+}
+
+function outpointsFor(fixtures, address) {
+  return fixtures.addresses[address] ?? fixtures.addresses["*"] ?? [];
+}
+
+/** Returns [status, body, contentType] for a request path, or undefined for 404 */
+function route(fixtures, pathname) {
+  let match;
+
+  if ((match = pathname.match(/^\/content\/([^/]+)$/))) {
+    const page = ociPageIds.indexOf(match[1]);
+    if (page !== -1) return [200, ociPage(fixtures, page), "text/plain;charset=utf-8"];
+    const inscription = fixtures.inscriptions[match[1]];
+    if (!inscription || inscription.content === undefined) return undefined;
+    return [200, inscription.content, inscription.content_type ?? "text/plain;charset=utf-8"];
+  }
+
+  if ((match = pathname.match(/^\/r\/inscription\/([^/]+)$/))) {
+    const inscription = fixtures.inscriptions[match[1]];
+    return inscription && [200, inscriptionJson(match[1], inscription)];
+  }
+
+  if ((match = pathname.match(/^\/r\/children\/([^/]+)(?:\/(\d+))?$/))) {
+    if (!fixtures.inscriptions[match[1]]) return undefined;
+    const page = Number(match[2] ?? 0);
+    const children = childrenOf(fixtures, match[1]);
+    const ids = children.slice(page * CHILDREN_PAGE_SIZE, (page + 1) * CHILDREN_PAGE_SIZE);
+    return [200, { ids, more: (page + 1) * CHILDREN_PAGE_SIZE < children.length, page }];
+  }
+
+  if ((match = pathname.match(/^\/r\/blockinfo\/(\d+)$/))) {
+    const block = fixtures.blocks[match[1]];
+    return block && [200, { height: Number(match[1]), ...block }];
+  }
+
+  if ((match = pathname.match(/^\/r\/sat\/(\d+)\/at\/(-?\d+)$/))) {
+    const ids = inscriptionsOnSat(fixtures, Number(match[1]));
+    const index = Number(match[2]);
+    return [200, { id: (index < 0 ? ids[ids.length + index] : ids[index]) ?? null }];
+  }
+
+  if ((match = pathname.match(/^\/r\/utxo\/([0-9a-f]{64}:\d+)$/))) {
+    const utxo = fixtures.utxos[match[1]];
+    if (!utxo) return undefined;
+    const { status, ...fields } = utxo;
+    return [200, { inscriptions: [], runes: {}, sat_ranges: null, ...fields }];
+  }
+
+  // ord's address index, used by the "ord" indexer
+  if ((match = pathname.match(/^\/address\/([^/]+)$/))) {
+    const outputs = outpointsFor(fixtures, match[1]);
+    const utxos = outputs.map((outpoint) => fixtures.utxos[outpoint]).filter(Boolean);
+    return [
+      200,
+      {
+        outputs,
+        inscriptions: utxos.flatMap((utxo) => utxo.inscriptions ?? []),
+        sat_balance: utxos.reduce((sum, utxo) => sum + utxo.value, 0),
+        runes_balances: [],
+      },
+    ];
+  }
+
+  // mempool/Esplora, optionally under a network prefix such as /signet
+  if ((match = pathname.match(/^(?:\/[a-z0-9]+)?\/api\/address\/([^/]+)\/utxo$/))) {
+    return [
+      200,
+      outpointsFor(fixtures, match[1])
+        .filter((outpoint) => fixtures.utxos[outpoint])
+        .map((outpoint) => {
+          const [txid, vout] = outpoint.split(":");
+          const { value, status } = fixtures.utxos[outpoint];
+          return { txid, vout: Number(vout), value, status: status ?? { confirmed: true } };
+        }),
+    ];
+  }
+
+  if ((match = pathname.match(/^(?:\/[a-z0-9]+)?\/api\/block-height\/(\d+)$/))) {
+    const block = fixtures.blocks[match[1]];
+    return block && [200, block.hash, "text/plain"];
+  }
+
+  if ((match = pathname.match(/^(?:\/[a-z0-9]+)?\/api\/block\/([0-9a-f]{64})$/))) {
+    const entry = Object.entries(fixtures.blocks).find(([, block]) => block.hash === match[1]);
+    if (!entry) return undefined;
+    const [height, block] = entry;
+    return [200, { id: block.hash, height: Number(height), tx_count: block.transaction_count, timestamp: block.timestamp }];
+  }
+
+  return undefined;
+}
+
+function respond(fixtures, method, pathname) {
+  const result = method === "GET" ? route(fixtures, pathname) : undefined;
+  if (!result) return { status: 404, body: "not found", contentType: "text/plain" };
+  const [status, body, contentType = "application/json"] = result;
+  return { status, body: typeof body === "string" ? body : JSON.stringify(body), contentType };
+}
+
+export function createMockServer(fixtures) {
+  return http.createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "*");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    const { status, body, contentType } = respond(fixtures, req.method, pathname);
+    res.writeHead(status, { "Content-Type": contentType }).end(body);
+    console.log(`${status} ${req.method} ${pathname}`);
+  });
+}
+
+/** fetch() answering from the same fixtures, for tests that stub the global fetch */
+export function createMockFetch(fixtures) {
+  return async (input, init) => {
+    const url = typeof input === "string" || input instanceof URL ? String(input) : input.url;
+    const method = init?.method ?? (typeof input === "object" && "method" in input ? input.method : "GET");
+    const { status, body, contentType } = respond(fixtures, method, new URL(url).pathname);
+    return new Response(body, { status, headers: { "Content-Type": contentType } });
+  };
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const args = parseArgs(process.argv.slice(2));
+  const fixturesPath = path.resolve(
+    args.fixtures ?? path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures.json")
+  );
+  const server = createMockServer(loadFixtures(fixturesPath));
+  server.listen(args.port, () => {
+    console.log(`Mock ord/mempool server on http://localhost:${args.port}`);
+    console.log(`Fixtures: ${fixturesPath}`);
+  });
+}
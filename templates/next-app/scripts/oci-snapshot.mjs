@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+// Builds an offline snapshot of the bitmap on-chain index (OCI), so
+// src/lib/bitmap-oci.ts can look up bitmap sats without downloading the nine
+// OCI pages from an ord server on every first visit.
+//
+//   npm run oci:snapshot -- [--ord-url https://ordinals.com] [--from dir] [--out public/bitmap-oci]
+//
+// --from reads pages saved earlier instead, one file per page named after its
+// inscription id (e.g. `curl -O https://ordinals.com/content/<id>`).
+//
+// The output is one `<page>.bin` of 100,000 little-endian float64 sats per
+// page and a manifest.json with the sha256 of each .bin and of the page it was
+// decoded from. Commit it with the app, the browser checks the .bin hashes on
+// load and the page hashes against the ord server once it is online.
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Same order as allPages in src/lib/bitmap-oci.ts
+export const ociPageIds = [
+  "01bba6c58af39d7f199aa2bceeaaba1ba91b23d2663bc4ef079a4b5e442dbf74i0",
+  "bb01dfa977a5cd0ee6e900f1d1f896b5ec4b1e3c7b18f09c952f25af6591809fi0",
+  "bb02e94f3062facf6aa2e47eeed348d017fd31c97614170dddb58fc59da304efi0",
+  "bb037ec98e6700e8415f95d1f5ca1fe1ba23a3f0c5cb7284d877e9ac418d0d32i0",
+  "bb9438f4345f223c6f4f92adf6db12a82c45d1724019ecd7b6af4fcc3f5786cei0",
+  "bb0542d4606a9e7eb4f31051e91f7696040db06ca1383dff98505618c34d7df7i0",
+  "bb06a4dffba42b6b513ddee452b40a67688562be4a1345127e4d57269e6b2ab6i0",
+  "bb076934c1c22007b315dd1dc0f8c4a2f9d52f348320cfbadc7c0bd99eaa5e18i0",
+  "bb986a1208380ec7db8df55a01c88c73a581069a51b5a2eb2734b41ba10b65c2i0",
+];
+
+/** Bump with decodeOciPage in src/lib/bitmap-oci.ts when the .bin layout changes */
+export const SNAPSHOT_VERSION = 1;
+const PAGE_SIZE = 100000;
+
+function parseArgs(argv) {
+  const args = { ordUrl: "https://ordinals.com", network: "mainnet", from: undefined, out: "public/bitmap-oci" };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--ord-url") args.ordUrl = argv[++i];
+    else if (argv[i] === "--network") args.network = argv[++i];
+    else if (argv[i] === "--from") args.from = argv[++i];
+    else if (argv[i] === "--out") args.out = argv[++i];
+  }
+  return args;
+}
+
+const sha256 = (data) => createHash("sha256").update(data).digest("hex");
+
+/** Mirrors decodeOciPage in src/lib/bitmap-oci.ts: sats indexed by bitmap number % 100,000 */
+export function decodeOciPage(page, text) {
+  let data;
+  // pages 2 & 3 are flat lists of 100,000 deltas then 100,000 indices
+  if (page === 2 || page === 3) {
+    const parsed = JSON.parse("[" + text + "]");
+    data = [parsed.slice(0, 99999), parsed.slice(100000, 199999)];
+  } else {
+    data = text;
+    try {
+      data = JSON.parse(data.replaceAll("\\n  ", ""));
+    } catch {}
+    try {
+      data = JSON.parse(data.replaceAll("  ", ""));
+    } catch {}
+  }
+
+  const sats = new Float64Array(PAGE_SIZE);
+  let sat = 0;
+  data[0].forEach((delta, i) => {
+    sat = i === 0 ? parseInt(delta) : sat + parseInt(delta);
+    sats[data[1][i]] = sat;
+  });
+  return sats;
+}
+
+/**
+ * @typedef {object} SnapshotPage
+ * @property {number} page
+ * @property {string} id
+ * @property {string} file
+ * @property {string} sha256
+ * @property {string} sourceSha256
+ */
+
+/**
+ * @typedef {object} SnapshotManifest
+ * @property {number} version
+ * @property {string} network
+ * @property {string} source
+ * @property {SnapshotPage[]} pages
+ */
+
+/**
+ * Fetches or reads every OCI page and writes the snapshot to `out`
+ * @param {object} options
+ * @param {string} options.ordUrl
+ * @param {string} options.network
+ * @param {string} [options.from]
+ * @param {string} options.out
+ * @param {typeof globalThis.fetch} [options.fetch]
+ * @returns {Promise<SnapshotManifest>}
+ */
+export async function buildSnapshot({ ordUrl, network, from, out, fetch = globalThis.fetch }) {
+  fs.mkdirSync(out, { recursive: true });
+  /** @type {SnapshotManifest} */
+  const manifest = { version: SNAPSHOT_VERSION, network, source: from ? "file" : ordUrl, pages: [] };
+
+  for (const [page, id] of ociPageIds.entries()) {
+    let text;
+    if (from) {
+      text = fs.readFileSync(path.join(from, id), "utf-8");
+    } else {
+      const response = await fetch(`${ordUrl}/content/${id}`);
+      if (!response.ok) throw new Error(`OCI page ${page} (${id}): ${response.status}`);
+      text = await response.text();
+    }
+
+    const sats = decodeOciPage(page, text);
+    const bytes = Buffer.alloc(sats.length * 8);
+    sats.forEach((sat, i) => bytes.writeDoubleLE(sat, i * 8));
+
+    const file = `${page}.bin`;
+    fs.writeFileSync(path.join(out, file), bytes);
+    manifest.pages.push({ page, id, file, sha256: sha256(bytes), sourceSha256: sha256(text) });
+  }
+
+  fs.writeFileSync(path.join(out, "manifest.json"), JSON.stringify(manifest, null, 2) + "\n");
+  return manifest;
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const args = parseArgs(process.argv.slice(2));
+  buildSnapshot({ ...args, out: path.resolve(args.out) }).then(
+    (manifest) => console.log(`Wrote ${manifest.pages.length} OCI pages from ${manifest.source} to ${args.out}`),
+    (err) => {
+      console.error(err instanceof Error ? err.message : err);
+      process.exit(1);
+    }
+  );
+}
@@ -26,6 +26,8 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
+// Wallets listed in the dialog, null shows every supported wallet
+const ENABLED_WALLETS = null as string[] | null;
 export default function ConnectWallet({ className }: { className?: string }) {
   const {
     connect,
@@ -109,7 +111,9 @@ export default function ConnectWallet({ className }: { className?: string }) {
         </DialogHeader>
         <div className="flex-1 overflow-y-auto scrollbar-hide px-6">
           <DialogDescription className="flex flex-col gap-2 w-full">
-            {Object.values(SUPPORTED_WALLETS).map((wallet) => {
+            {Object.values(SUPPORTED_WALLETS)
+              .filter((wallet) => !ENABLED_WALLETS || ENABLED_WALLETS.includes(wallet.name))
+              .map((wallet) => {
               const isConnected = provider === wallet;
               const isMissingWallet = !hasWallet[wallet.name];
               return (
@@ -1,18 +1,19 @@
 "use client";
 import React, { ReactNode } from "react";
 import { LaserEyesProvider } from "@omnisat/lasereyes";
-import { ThemeProvider as NextThemesProvider } from "next-themes";
+import { ThemeProvider } from "@/components/ThemeProvider";
+import { networkConfig } from "@/lib/network";
 export default function DefaultLayout({ children }: { children: ReactNode }) {
   return (
-    <NextThemesProvider
+    <ThemeProvider
       attribute="class"
       defaultTheme="system"
       enableSystem
       disableTransitionOnChange
     >
-      <LaserEyesProvider config={{ network: 'mainnet' }}>
+      <LaserEyesProvider config={{ network: networkConfig.network }}>
         {children}
       </LaserEyesProvider>
-    </NextThemesProvider>
+    </ThemeProvider>
   );
 }
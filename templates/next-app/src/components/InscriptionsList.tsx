@@ -22,17 +22,19 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { useInscriptions, type Inscription, type UTXO, type RuneUtxo } from '@/hooks/useInscriptions';
 import { ValidationStatusIndicator } from '@/components/ValidationStatusIndicator';
+import { ValidationDetailsPopover } from '@/components/ValidationDetailsPopover';
 import { useBitmapValidation } from '@/hooks/useBitmapValidation';
 import { useLaserEyes } from "@omnisat/lasereyes";
 import { useVirtualizer } from '@tanstack/react-virtual';
 import UtxoFilter from './UtxoFilter';
 import { FilterType, ShowTypes } from '@/types';
+import { getIndexer } from '@/lib/indexer';
+import { clearValidationCache, getValidationMessage } from '@/lib/utils';
 
 // Constants for UI configuration
 const CONSTANTS = {
   ITEMS_PER_PAGE: 50,        // Number of items per page
   ITEM_HEIGHT: 100,         // Reduced height for more compact cards
-  BASE_URL: 'https://ordinals.com',
   MOBILE_BREAKPOINT: 768    // Mobile breakpoint in pixels
 } as const;
 
@@ -206,20 +208,37 @@ export default function InscriptionsList({ walletAddress }: InscriptionsListProp
                   <>
                     <ValidationStatusIndicator
                       status={validationResult?.status || 'unknown'}
-                      message={validationResult?.message}
+                      message={validationResult ? getValidationMessage(validationResult) : undefined}
                       variant="dot"
                     />
-                    <span className={`text-xs font-medium ${
-                      validationResult?.status === 'invalid' 
-                        ? 'text-red-600 dark:text-red-400' 
-                        : validationResult?.status === 'valid'
-                        ? 'text-green-600 dark:text-green-400'
-                        : 'text-gray-500 dark:text-gray-400'
-                    }`}>
-                      {validationResult?.status === 'valid' ? 'Valid' :
-                       validationResult?.status === 'invalid' ? 'Invalid' :
-                       validationResult?.status === 'pending' ? 'Pending...' : 'Unknown'}
-                    </span>
+                    {(() => {
+                      const statusText = (
+                        <span className={`text-xs font-medium ${
+                          validationResult?.status === 'invalid' 
+                            ? 'text-red-600 dark:text-red-400' 
+                            : validationResult?.status === 'valid'
+                            ? 'text-green-600 dark:text-green-400'
+                            : validationResult?.status === 'unverified'
+                            ? 'text-blue-600 dark:text-blue-400'
+                            : validationResult?.status === 'error'
+                            ? 'text-orange-600 dark:text-orange-400'
+                            : validationResult?.status === 'beyond-index'
+                            ? 'text-purple-600 dark:text-purple-400'
+                            : 'text-gray-500 dark:text-gray-400'
+                        }`}>
+                          {validationResult?.status === 'valid' ? 'Valid' :
+                           validationResult?.status === 'invalid' ? 'Invalid' :
+                           validationResult?.status === 'unverified' ? 'Unverified' :
+                           validationResult?.status === 'error' ? 'Error' :
+                           validationResult?.status === 'beyond-index' ? 'Beyond index' :
+                           validationResult?.status === 'pending' ? 'Pending...' : 'Unknown'}
+                        </span>
+                      );
+                      // Details explain why a bitmap or parcel is (in)valid
+                      return validationResult?.details ? (
+                        <ValidationDetailsPopover result={validationResult}>{statusText}</ValidationDetailsPopover>
+                      ) : statusText;
+                    })()}
                   </>
                 )}
               </div>
@@ -308,6 +327,8 @@ export default function InscriptionsList({ walletAddress }: InscriptionsListProp
       });
       if (filter === 'all') return inscriptions;
       return inscriptions.filter(insc => {
+        // Bitmaps found by sat need no content
+        if (insc.bitmapNumber !== undefined) return filter === 'bitmap';
         const content = insc.content; // Use content directly from inscription
         console.log('Checking inscription:', {
           id: insc.inscriptionId,
@@ -384,27 +405,7 @@ export default function InscriptionsList({ walletAddress }: InscriptionsListProp
         });
         return cachedContent;
       }
-      const url = `https://ordinals.com/content/${inscriptionId}`;
-      console.log('Fetching from URL:', url);
-      console.log('Request headers:', {
-        'Accept': 'text/plain',
-        'Cache-Control': 'no-cache'
-      });
-      const response = await fetch(url, {
-        headers: {
-          'Accept': 'text/plain',
-          'Cache-Control': 'no-cache'
-        }
-      });
-      console.log('Response status:', response.status);
-      console.log('Response headers:', {
-        contentType: response.headers.get('content-type'),
-        contentLength: response.headers.get('content-length'),
-      });
-      if (!response.ok) {
-        throw new Error(`Failed to fetch content: ${response.status}`);
-      }
-      const rawContent = await response.text();
+      const rawContent = await getIndexer().fetchInscriptionContent(inscriptionId);
       console.log('Raw content received:', rawContent);
       // Clean and normalize content
       const cleanContent = rawContent.trim().replace(/\s+/g, '');
@@ -668,14 +669,30 @@ export default function InscriptionsList({ walletAddress }: InscriptionsListProp
                   <span className="text-lg">🎯</span>
                   <h2 className="text-base font-bold text-gray-900 dark:text-white">My UTXOs</h2>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => disconnect()}
-                  className="text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors px-2 py-1 h-auto"
-                >
-                  Disconnect
-                </Button>
+                <div className="flex items-center gap-1">
+                  {/* Drops stored content, OCI pages and validations, then reloads */}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isLoading}
+                    onClick={async () => {
+                      await clearValidationCache();
+                      setContentCache({});
+                      if (address) await fetchFromAddress(address);
+                    }}
+                    className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 transition-colors px-2 py-1 h-auto"
+                  >
+                    Clear cache
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => disconnect()}
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors px-2 py-1 h-auto"
+                  >
+                    Disconnect
+                  </Button>
+                </div>
               </div>
 
               {/* Compact Wallet Info */}
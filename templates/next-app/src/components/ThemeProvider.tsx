@@ -0,0 +1,3 @@
+"use client";
+// Other React templates provide their own ThemeProvider with the same API
+export { ThemeProvider, useTheme } from "next-themes";
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  cn,
+  getParcelDiagnosticMessage,
+  getValidationMessage,
+  type BitmapValidationResult,
+} from '@/lib/utils';
+
+interface ValidationDetailsPopoverProps {
+  result: BitmapValidationResult;
+  children: React.ReactNode;
+  className?: string;
+}
+
+const shortId = (id: string) => `${id.slice(0, 8)}…${id.slice(-4)}`;
+
+/**
+ * Explains a validation result on click
+ * Shows the reason code, and for bitmaps every child that does not hold a parcel
+ */
+export function ValidationDetailsPopover({ result, children, className }: ValidationDetailsPopoverProps) {
+  const { bitmapNumber, inscriptionId, isParcel, txCount, diagnostics = [] } = result.details ?? {};
+  const ownDiagnostic = isParcel ? diagnostics.find((child) => child.id === inscriptionId) : undefined;
+  const rejectedChildren = isParcel ? [] : diagnostics.filter((child) => child.status !== 'valid');
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className={cn('cursor-pointer hover:underline', className)}>
+          {children}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-xs space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-medium">{getValidationMessage(result)}</span>
+          {result.reason && (
+            <span className="font-mono px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700">{result.reason}</span>
+          )}
+        </div>
+
+        {txCount !== undefined && (
+          <p className="text-gray-500 dark:text-gray-400">
+            Block {bitmapNumber} has {txCount} transactions
+          </p>
+        )}
+
+        {ownDiagnostic?.winner && (
+          <p className="text-gray-500 dark:text-gray-400">
+            Winner: <span className="font-mono break-all">{ownDiagnostic.winner.id}</span>
+            {' '}(block {ownDiagnostic.winner.height})
+          </p>
+        )}
+
+        {rejectedChildren.length > 0 && (
+          <div className="space-y-1">
+            <p className="font-medium">
+              {rejectedChildren.length} of {diagnostics.length} children hold no parcel
+            </p>
+            <ul className="max-h-48 overflow-y-auto space-y-1">
+              {rejectedChildren.map((child) => (
+                <li key={child.id} className="flex flex-col">
+                  <span className="font-mono text-gray-500 dark:text-gray-400">
+                    {shortId(child.id)} · {child.reason}
+                  </span>
+                  <span>{getParcelDiagnosticMessage(child, bitmapNumber)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
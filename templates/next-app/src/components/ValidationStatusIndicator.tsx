@@ -36,6 +36,12 @@ export function ValidationStatusIndicator({
         return 'Valid';
       case 'invalid':
         return 'Invalid';
+      case 'unverified':
+        return 'Unverified';
+      case 'error':
+        return 'Error';
+      case 'beyond-index':
+        return 'Beyond index';
       case 'pending':
         return 'Pending';
       case 'unknown':
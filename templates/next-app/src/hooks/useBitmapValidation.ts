@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { 
+  invalidateBitmapValidation,
+  parseBitmapContent,
   validateBitmapContent, 
   BitmapValidationResult, 
   BitmapValidationStatus 
@@ -16,12 +18,14 @@ interface UseBitmapValidationReturn {
   isValidating: boolean;
   error: string | null;
   validateNow: () => Promise<void>;
+  /** Drops the cached scan of this bitmap and validates again */
+  revalidate: () => Promise<void>;
   resetValidation: () => void;
 }
 
 /**
  * Hook for managing bitmap validation status
- * Provides real-time validation of bitmap content with caching
+ * Results come from the validator's shared cache, so rows of one bitmap scan it once
  */
 export function useBitmapValidation(options: UseBitmapValidationOptions): UseBitmapValidationReturn {
   const { content, inscriptionId, autoValidate = true } = options;
@@ -29,7 +33,6 @@ export function useBitmapValidation(options: UseBitmapValidationOptions): UseBit
   const [validationResult, setValidationResult] = useState<BitmapValidationResult | null>(null);
   const [isValidating, setIsValidating] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [validationCache] = useState(new Map<string, BitmapValidationResult>());
 
   const validateNow = useCallback(async () => {
     if (!content) {
@@ -37,37 +40,30 @@ export function useBitmapValidation(options: UseBitmapValidationOptions): UseBit
       return;
     }
 
-    // Create cache key
-    const cacheKey = `${content}:${inscriptionId || 'no-id'}`;
-    
-    // Check cache first
-    const cachedResult = validationCache.get(cacheKey);
-    if (cachedResult) {
-      setValidationResult(cachedResult);
-      return;
-    }
-
     setIsValidating(true);
     setError(null);
 
     try {
       const result = await validateBitmapContent(content, inscriptionId);
-      
-      // Cache the result
-      validationCache.set(cacheKey, result);
       setValidationResult(result);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown validation error';
       setError(errorMessage);
       setValidationResult({
-        status: 'invalid',
-        message: errorMessage,
-        details: { inscriptionId }
+        status: 'error',
+        reason: 'NETWORK_ERROR',
+        details: { inscriptionId, error: errorMessage }
       });
     } finally {
       setIsValidating(false);
     }
-  }, [content, inscriptionId, validationCache]);
+  }, [content, inscriptionId]);
+
+  const revalidate = useCallback(async () => {
+    const parsed = content ? parseBitmapContent(content) : null;
+    if (parsed) await invalidateBitmapValidation(parsed.bitmapNumber);
+    await validateNow();
+  }, [content, validateNow]);
 
   const resetValidation = useCallback(() => {
     setValidationResult(null);
@@ -87,6 +83,7 @@ export function useBitmapValidation(options: UseBitmapValidationOptions): UseBit
     isValidating,
     error,
     validateNow,
+    revalidate,
     resetValidation
   };
 }
@@ -1,14 +1,15 @@
 // Import necessary dependencies
-import mempoolJS from "@mempool/mempool.js";
 import { useState, useCallback } from 'react';
+import { getIndexer, type AddressUtxo } from '@/lib/indexer';
+import { findBitmapInOutput } from '@/lib/utils';
 // Core interfaces for transaction and UTXO data
 export interface UTXO {
   txid: string;
   vout: number;
   status: {
     confirmed: boolean;
-    block_height: number;
-    block_time: number;
+    block_height?: number;
+    block_time?: number;
   };
   value: number;
   formattedId: string;
@@ -27,7 +28,7 @@ export interface RuneUtxo extends UTXO {
 /** Represents an inscription with its metadata */
 export interface Inscription {
   inscriptionId: string;   // Unique inscription identifier
-  inscriptionNumber: string;
+  inscriptionNumber?: string;  // Unset when the indexer gives no number, /r/utxo never does
   txid: string;
   vout: number;
   value: number;
@@ -35,6 +36,8 @@ export interface Inscription {
   contentType?: string;
   preview?: string;
   content?: string | null;  // Update to allow null
+  bitmapNumber?: number;  // Confirmed against the bitmap index
+  bitmapInscriptionId?: string;  // The output's bitmap inscription, set with bitmapNumber
 }
 interface ProcessedInscription extends Inscription {
   content: string;  // Make content required in processed inscriptions
@@ -66,23 +69,13 @@ interface UTXOWithInscription {
   utxo: UTXO;
   inscriptionData: {
     inscriptionId: string;
-    inscriptionNumber: string;
+    inscriptionNumber?: string;
     contentType?: string;
     preview?: string;
+    bitmapNumber?: number;
+    bitmapInscriptionId?: string;
   };
 }
-// Add MempoolUTXO interface to match mempool.js response
-interface MempoolUTXO {
-  txid: string;
-  vout: number;
-  status: {
-    confirmed: boolean;
-    block_height: number;
-    block_hash: string;
-    block_time: number;
-  };
-  value: number;
-}
 // Helper to create UTXO identifier directly from txid and vout
 // This is only used for display purposes, inscription IDs come from API
 const createUtxoDisplayId = (txid: string, vout: number) => `${txid}:${vout}`;
@@ -94,12 +87,10 @@ const createUtxoDisplayId = (txid: string, vout: number) => `${txid}:${vout}`;
 const fetchInscriptionContents = async (inscriptions: Inscription[]): Promise<Record<string, string | null>> => {
   const fetchPromises = inscriptions.map(async (inscription) => {
     try {
-      const response = await fetch(`https://ordinals.com/content/${inscription.inscriptionId}`);
-      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-      const content = await response.text();
+      const content = await getIndexer().fetchInscriptionContent(inscription.inscriptionId);
       return {
         inscriptionId: inscription.inscriptionId,
-        content: content.trim()
+        content
       };
     } catch (error) {
       console.error(`Failed to fetch content for ${inscription.inscriptionId}:`, error);
@@ -136,22 +127,19 @@ export const useInscriptions = (): UseInscriptionsReturn => {
   // Add batch processing state
   const [processedCount, setProcessedCount] = useState(0);
   const BATCH_SIZE = 20;
-  const processUtxoBatch = async (utxos: MempoolUTXO[], startIndex: number) => {
+  const processUtxoBatch = async (utxos: AddressUtxo[], startIndex: number) => {
     const batch = utxos.slice(startIndex, startIndex + BATCH_SIZE);
     const results = await Promise.all(
       batch.map(async (utxo) => {
         try {
-          const response = await fetch(
-            `https://ordinals.com/r/utxo/${utxo.txid}:${utxo.vout}`
-          );
-          if (!response.ok) return {
+          const data = await getIndexer().getUtxoAssets(utxo.txid, utxo.vout);
+          if (!data) return {
             type: 'cardinal',
             utxo: {
               ...utxo,
               formattedId: createUtxoDisplayId(utxo.txid, utxo.vout)
             }
           };
-          const data = await response.json();
           console.log('UTXO API response for', `${utxo.txid}:${utxo.vout}`, ':', data); // Debug log to verify data structure
           
           const hasRunes = data.runes && Object.keys(data.runes).length > 0;
@@ -169,6 +157,13 @@ export const useInscriptions = (): UseInscriptionsReturn => {
           if (hasInscriptions) {
             console.log('Found inscription ID from API:', data.inscriptions[0], 'for UTXO:', `${utxo.txid}:${utxo.vout}`);
           }
+          // Bitmap content is checked against the bitmap index, which loads one OCI page per bitmap
+          const bitmap = hasInscriptions
+            ? await findBitmapInOutput(data.inscriptions, data.satRanges ?? []).catch((err) => {
+                console.error('Failed to look up bitmaps for', `${utxo.txid}:${utxo.vout}`, err);
+                return null;
+              })
+            : null;
           // Extract rune info if available
           let runeInfo: RuneInfo | undefined;
           if (hasRunes) {
@@ -187,10 +182,10 @@ export const useInscriptions = (): UseInscriptionsReturn => {
             },
             inscriptionData: type === 'inscription' ? {
               // Use inscription ID directly from UTXO API response - never generate it
-              inscriptionId: data.inscriptions[0], // This is the actual inscription ID from ordinals.com
-              inscriptionNumber: data.number || data.inscriptions[0], // Use actual inscription number if available
-              contentType: data.contentType,
-              preview: data.preview
+              // A bitmap is listed over any other inscription on the output
+              inscriptionId: bitmap?.inscriptionId ?? data.inscriptions[0], // This is the actual inscription ID from the indexer
+              bitmapNumber: bitmap?.bitmapNumber,
+              bitmapInscriptionId: bitmap?.inscriptionId
             } : undefined
           };
         } catch (err) {
@@ -215,23 +210,8 @@ export const useInscriptions = (): UseInscriptionsReturn => {
       console.log('Starting UTXO fetch for:', walletAddress);
       // Normalize the address format if needed
       const normalizedAddress = walletAddress.trim();
-      const { bitcoin: { addresses } } = mempoolJS({
-        hostname: 'mempool.space'
-      });
-      // Add retry logic for UTXO fetching with proper typing
-      let utxos: MempoolUTXO[] = [];
-      let retries = 3;
-      while (retries > 0) {
-        try {
-          utxos = await addresses.getAddressTxsUtxo({ address: normalizedAddress });
-          break;
-        } catch (error) {
-          console.warn(`UTXO fetch attempt failed, retries left: ${retries - 1}`);
-          retries--;
-          if (retries === 0) throw error;
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
+      // The indexer retries failed UTXO fetches itself
+      const utxos = await getIndexer().getAddressUtxos(normalizedAddress);
       console.log(`Found ${utxos.length} UTXOs for wallet:`, normalizedAddress);
       const inscribedUtxos: UTXOWithInscription[] = [];
       const runeUtxos: UTXO[] = [];
@@ -261,6 +241,8 @@ export const useInscriptions = (): UseInscriptionsReturn => {
           value: utxo.value,
           contentType: inscriptionData.contentType,
           preview: inscriptionData.preview,
+          bitmapNumber: inscriptionData.bitmapNumber,
+          bitmapInscriptionId: inscriptionData.bitmapInscriptionId,
           utxo: utxo  // Just pass the complete UTXO object
         }));
         // Fetch contents for all inscriptions at once
@@ -296,6 +278,7 @@ export const useInscriptions = (): UseInscriptionsReturn => {
   const filterInscriptions = useCallback((type: 'bitmap' | 'parcel' | 'all'): ProcessedInscription[] => {
     return inscriptions.filter(inscription => {
       if (type === 'all') return true;
+      if (inscription.bitmapNumber !== undefined) return type === 'bitmap';
       const content = inscription.content;
       if (!content) return false;
       const cleanContent = content.trim();
@@ -1,9 +1,17 @@
 /// bitmap on-chain index (OCI) module (0-839,999.bitmap)
 //
-// to get a full list, use await getBitmapSatsRange(0, 839999)
+// to get a full list, use await getBitmapSatsRange(0, 839999), or stream
+// inscription IDs with getBitmapInscriptionIds(0, 839999)
+//
+// later bitmaps need supplementary pages once they are published on-chain,
+// see addOciPages and getOciHorizon
 //
 /// thanks to @_lefrog for finding + fixing multiple bugs - reinscriptions are now accounted for
 
+import { getIndexer } from './indexer';
+import { networkConfig } from './network';
+import { cacheGet, cacheSet } from './persistent-cache';
+
 const pages = Array(8).fill(0);
 
 const allPages = [
@@ -18,11 +26,114 @@ const allPages = [
     '/content/bb986a1208380ec7db8df55a01c88c73a581069a51b5a2eb2734b41ba10b65c2i0',
 ];
 
-// Base URL for ordinals.com - can be configured
-const ORDINALS_BASE_URL = 'https://ordinals.com';
+/** Bitmaps `first` to `last` of an OCI page, its indices count from `first` */
+export interface OciPage {
+    /** Inscription holding the page */
+    id: string;
+    first: number;
+    last: number;
+}
 
-async function fillPage(page: number): Promise<void> {
-    let data: any = await fetch(ORDINALS_BASE_URL + allPages[page]).then(r => r.text());
+// bitmaps each page of allPages covers, pages hold at most 100,000 bitmaps
+const pageRanges = allPages.map((_, page) => ({
+    first: page * 100000,
+    last: Math.min(page * 100000 + 99999, 839999),
+}));
+
+// pages added with addOciPages, sent along to the worker when it starts
+const supplementaryPages: OciPage[] = [];
+
+/** First bitmap number the OCI pages do not cover, bitmaps from here on are beyond the index */
+export function getOciHorizon(): number {
+    let horizon = 0;
+    for (const { first, last } of [...pageRanges].sort((a, b) => a.first - b.first)) {
+        if (first > horizon) break;
+        horizon = last + 1;
+    }
+    return horizon;
+}
+
+function registerOciPages(newPages: OciPage[]): void {
+    for (const page of newPages) {
+        const path = `/content/${page.id}`;
+        if (allPages.includes(path)) continue;
+        if (!(page.first >= 0 && page.first <= page.last && page.last - page.first < 100000)) {
+            throw new Error(`addOciPages: page ${page.id} must cover 1 to 100,000 bitmaps!`);
+        }
+        if (pageRanges.some(range => range.first <= page.last && page.first <= range.last)) {
+            throw new Error(`addOciPages: page ${page.id} overlaps bitmaps the index already covers!`);
+        }
+        allPages.push(path);
+        pageRanges.push({ first: page.first, last: page.last });
+        supplementaryPages.push(page);
+    }
+    // the reverse index is rebuilt with the new pages
+    satIndex = undefined;
+}
+
+// ord server holding the bitmap OCI pages, see lib/network.ts
+const ORDINALS_BASE_URL = networkConfig.ordUrl;
+
+// offline snapshot written by scripts/oci-snapshot.mjs, served from public/bitmap-oci
+const SNAPSHOT_URL = '/bitmap-oci';
+// same as SNAPSHOT_VERSION in scripts/oci-snapshot.mjs
+const SNAPSHOT_VERSION = 1;
+
+interface SnapshotPage {
+    page: number;
+    /** Inscription of the on-chain page */
+    id: string;
+    file: string;
+    /** sha256 of the .bin file */
+    sha256: string;
+    /** sha256 of the on-chain page it was decoded from */
+    sourceSha256: string;
+}
+
+interface SnapshotManifest {
+    version: number;
+    network: string;
+    pages: SnapshotPage[];
+}
+
+let snapshotManifest: Promise<SnapshotManifest | null> | undefined;
+
+function loadSnapshotManifest(): Promise<SnapshotManifest | null> {
+    // only pages served from an origin (windows and workers) have public/
+    if (typeof location === 'undefined') return Promise.resolve(null);
+    snapshotManifest ??= fetch(`${SNAPSHOT_URL}/manifest.json`)
+        .then(r => (r.ok ? r.json() : null))
+        .then((manifest: SnapshotManifest | null) =>
+            manifest?.version === SNAPSHOT_VERSION && manifest.network === networkConfig.network ? manifest : null
+        )
+        .catch(() => null);
+    return snapshotManifest;
+}
+
+async function sha256(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// crypto.subtle is only there in secure contexts (https, localhost)
+const canHash = () => typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+
+// an error body would decode into wrong sats, so fail with the page and status instead
+async function fetchPage(page: number): Promise<{ text: string; bytes: ArrayBuffer }> {
+    const response = await fetch(ORDINALS_BASE_URL + allPages[page]);
+    if (!response.ok) {
+        throw Object.assign(
+            new Error(`OCI page ${page} (${allPages[page]}): ${response.status} ${response.statusText}`),
+            { status: response.status }
+        );
+    }
+    const bytes = await response.arrayBuffer();
+    return { text: new TextDecoder().decode(bytes), bytes };
+}
+
+/** Sats of one OCI page, indexed by bitmap number % 100,000 */
+export function decodeOciPage(page: number, text: string): number[] {
+    let data: any = text;
 
     // fix for inconsistent (page 2 & 3) formatting (due to different mime types accident)
     if (page === 2 || page === 3) {
@@ -51,27 +162,266 @@ async function fillPage(page: number): Promise<void> {
     (data as any)[1].forEach((index: number, i: number) => {
         filledArray[index] = fullSats[i];
     });
+    return filledArray;
+}
 
-    // page of sats is cached in the pages array
-    pages[page] = filledArray;
+async function snapshotPage(page: number): Promise<{ sats: number[]; entry: SnapshotPage } | null> {
+    const manifest = await loadSnapshotManifest();
+    const entry = manifest?.pages.find(p => `/content/${p.id}` === allPages[page]);
+    if (!entry) return null;
+
+    try {
+        const response = await fetch(`${SNAPSHOT_URL}/${entry.file}`);
+        if (!response.ok) return null;
+        const bytes = await response.arrayBuffer();
+        if (canHash() && (await sha256(bytes)) !== entry.sha256) {
+            console.warn(`bitmap OCI snapshot: ${entry.file} does not match its manifest, ignoring it`);
+            return null;
+        }
+        const view = new DataView(bytes);
+        const sats = Array.from({ length: bytes.byteLength / 8 }, (_, i) => view.getFloat64(i * 8, true));
+        return { sats, entry };
+    } catch (e) {
+        return null;
+    }
 }
 
-export async function getBitmapSat(bitmapNumber: number): Promise<number> {
-    if (bitmapNumber < 0) {
+// compares a snapshot page with the page on chain, a match is cached so each
+// browser checks once, a mismatch is replaced by the chain's copy
+async function verifySnapshotPage(page: number, entry: SnapshotPage): Promise<void> {
+    if (!canHash() || (typeof navigator !== 'undefined' && !navigator.onLine)) return;
+    try {
+        const { text, bytes } = await fetchPage(page);
+        if ((await sha256(bytes)) !== entry.sourceSha256) {
+            console.warn(`bitmap OCI snapshot: page ${page} differs from the chain, using the chain's copy`);
+            pages[page] = decodeOciPage(page, text);
+        }
+        void cacheSet('oci-pages', allPages[page], pages[page]);
+    } catch (e) {
+        // offline or ord server down, the next visit checks again
+    }
+}
+
+async function fillPage(page: number): Promise<void> {
+    // pages never change, so a copy from an earlier visit is as good as a fetch
+    const stored = await cacheGet<number[]>('oci-pages', allPages[page]);
+    if (stored) {
+        pages[page] = stored;
+        return;
+    }
+
+    const snapshot = await snapshotPage(page);
+    if (snapshot) {
+        pages[page] = snapshot.sats;
+        void verifySnapshotPage(page, snapshot.entry);
+        return;
+    }
+
+    // page of sats is cached in the pages array, and in IndexedDB across reloads
+    const { text } = await fetchPage(page);
+    pages[page] = decodeOciPage(page, text);
+    void cacheSet('oci-pages', allPages[page], pages[page]);
+}
+
+// in-flight page loads, so concurrent lookups share one download
+const pageLoads = new Map<number, Promise<void>>();
+
+function loadPage(page: number): Promise<void> {
+    if (pages[page]) return Promise.resolve();
+    let load = pageLoads.get(page);
+    if (!load) {
+        load = fillPage(page).finally(() => pageLoads.delete(page));
+        pageLoads.set(page, load);
+    }
+    return load;
+}
+
+// indices of the pages overlapping bitmaps `start` to `end`, in bitmap order
+function pagesBetween(start: number, end: number): number[] {
+    return pageRanges
+        .map((range, page) => ({ ...range, page }))
+        .filter(range => range.first <= end && start <= range.last)
+        .sort((a, b) => a.first - b.first)
+        .map(range => range.page);
+}
+
+async function readBitmapSatsRange(start: number, end: number): Promise<number[]> {
+    const horizon = getOciHorizon();
+    if (start < 0) {
         throw new Error('getBitmapSat: number is below 0!');
-    } else if (bitmapNumber > 839999) {
-        throw new Error('getBitmapSat: number is above 839,999!');
+    } else if (end >= horizon) {
+        throw new Error(`getBitmapSat: number is above ${(horizon - 1).toLocaleString('en-US')}!`);
+    }
+
+    // fetch each page the range touches once, side by side
+    const touched = pagesBetween(start, end);
+    await Promise.all(touched.map(loadPage));
+
+    const arr: number[] = [];
+    for (const page of touched) {
+        const { first, last } = pageRanges[page];
+        for (let i = Math.max(start, first); i <= Math.min(end, last); i++) {
+            arr.push(pages[page][i - first]);
+        }
+    }
+    return arr;
+}
+
+// every bitmap's sat in sat order, with its bitmap number, for reverse lookups
+let satIndex: Promise<{ sats: Float64Array; bitmaps: Uint32Array }> | undefined;
+
+function loadSatIndex() {
+    satIndex ??= (async () => {
+        // every page is needed, a snapshot (see fillPage) saves downloading them
+        const satsByBitmap = Float64Array.from(await readBitmapSatsRange(0, getOciHorizon() - 1));
+
+        const found: number[] = [];
+        satsByBitmap.forEach((sat, bitmapNumber) => {
+            // unfilled entries are 0
+            if (sat > 0) found.push(bitmapNumber);
+        });
+        const bitmaps = Uint32Array.from(found).sort((a, b) => satsByBitmap[a] - satsByBitmap[b] || a - b);
+        return { sats: Float64Array.from(bitmaps, bitmapNumber => satsByBitmap[bitmapNumber]), bitmaps };
+    })().catch(e => {
+        satIndex = undefined;
+        throw e;
+    });
+    return satIndex;
+}
+
+async function readBitmapNumbersForSatRanges(satRanges: [number, number][]): Promise<number[]> {
+    const { sats, bitmaps } = await loadSatIndex();
+    const found = new Set<number>();
+    for (const [start, end] of satRanges) {
+        // first bitmap sat at or after start
+        let low = 0;
+        let high = sats.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (sats[mid] < start) low = mid + 1;
+            else high = mid;
+        }
+        for (let i = low; i < sats.length && sats[i] < end; i++) found.add(bitmaps[i]);
+    }
+    return Array.from(found).sort((a, b) => a - b);
+}
+
+/** A lookup bitmap-oci.ts sends to its worker */
+export type OciQuery =
+    | { type: 'sats'; start: number; end: number }
+    | { type: 'bitmaps'; satRanges: [number, number][] }
+    | { type: 'pages'; pages: OciPage[] };
+
+export type OciWorkerRequest = OciQuery & { id: number };
+
+export interface OciWorkerResponse {
+    id: number;
+    result?: number[];
+    error?: string;
+}
+
+/** Answers a query on this thread, see bitmap-oci.worker.ts */
+export async function runOciQuery(query: OciQuery): Promise<number[]> {
+    switch (query.type) {
+        case 'sats':
+            return readBitmapSatsRange(query.start, query.end);
+        case 'bitmaps':
+            return readBitmapNumbersForSatRanges(query.satRanges);
+        case 'pages':
+            registerOciPages(query.pages);
+            return [];
     }
+}
+
+// decoding a page blocks for a while, so browsers do it in a worker and keep
+// the UI responsive, elsewhere (or if the worker fails to start) it runs here
+let worker: Worker | null | undefined;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, {
+    query: OciQuery;
+    resolve: (result: number[]) => void;
+    reject: (error: Error) => void;
+}>();
 
-    // determine which page this bitmap is in
-    const page = Math.floor(bitmapNumber / 100000);
+function getWorker(): Worker | null {
+    if (worker !== undefined) return worker;
+    if (typeof window === 'undefined' || typeof Worker === 'undefined') return (worker = null);
 
-    // if the page has not yet been fetched and cached, then get it
-    if (!pages[page]) {
-        await fillPage(page);
+    try {
+        worker = new Worker(new URL('./bitmap-oci.worker.ts', import.meta.url), { type: 'module' });
+    } catch (e) {
+        return (worker = null);
+    }
+    // no answer is awaited, later queries reach the worker after it
+    if (supplementaryPages.length > 0) {
+        worker.postMessage({ id: nextRequestId++, type: 'pages', pages: supplementaryPages } satisfies OciWorkerRequest);
     }
+    worker.onmessage = (event: MessageEvent<OciWorkerResponse>) => {
+        const { id, result, error } = event.data;
+        const request = pendingRequests.get(id);
+        if (!request) return;
+        pendingRequests.delete(id);
+        if (error !== undefined) request.reject(new Error(error));
+        else request.resolve(result ?? []);
+    };
+    worker.onerror = () => {
+        worker?.terminate();
+        worker = null;
+        // forEach, create-next-app's tsconfig has no target for iterating a Map
+        pendingRequests.forEach(request => {
+            runOciQuery(request.query).then(request.resolve, request.reject);
+        });
+        pendingRequests.clear();
+    };
+    return worker;
+}
+
+function lookup(query: OciQuery, signal?: AbortSignal): Promise<number[]> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    const target = getWorker();
+    if (!target) return abortable(runOciQuery(query), signal);
 
-    return pages[page][bitmapNumber % 100000];
+    const id = nextRequestId++;
+    return new Promise((resolve, reject) => {
+        // the worker finishes the page anyway, other lookups reuse it
+        const onAbort = () => {
+            pendingRequests.delete(id);
+            reject(signal?.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const settle = <T>(done: (value: T) => void) => (value: T) => {
+            signal?.removeEventListener('abort', onAbort);
+            done(value);
+        };
+        pendingRequests.set(id, { query, resolve: settle(resolve), reject: settle(reject) });
+        target.postMessage({ ...query, id } satisfies OciWorkerRequest);
+    });
+}
+
+/** Rejects with the signal's reason once it aborts, leaving `promise` to finish unobserved */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        if (signal.aborted) return onAbort();
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * Adds OCI pages for bitmaps past the index, published on-chain after the
+ * original nine. Pages use the same sat delta format, with indices counting
+ * from `first`, and extend getOciHorizon() once they close the gap to it.
+ */
+export async function addOciPages(newPages: OciPage[]): Promise<void> {
+    registerOciPages(newPages);
+    await lookup({ type: 'pages', pages: newPages });
+}
+
+export async function getBitmapSat(bitmapNumber: number): Promise<number> {
+    const [sat] = await lookup({ type: 'sats', start: bitmapNumber, end: bitmapNumber });
+    return sat;
 }
 
 // some bitmaps are not the first inscription on their sat - data from @_lefrog
@@ -88,27 +438,131 @@ export function getBitmapSatIndex(bitmapNumber: number): number {
     return satIndices[bitmapNumber] || 0;
 }
 
+// get inscription ID from sat endpoint, `status` tells retryable server errors from missing data
+async function fetchInscriptionIdOnSat(bitmapNumber: number, sat: number, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(`${ORDINALS_BASE_URL}/r/sat/${sat}/at/${getBitmapSatIndex(bitmapNumber)}`, { signal });
+    if (!response.ok) {
+        throw Object.assign(
+            new Error(`getBitmapInscriptionId: ${response.status} ${response.statusText}`),
+            { status: response.status }
+        );
+    }
+    const data = await response.json();
+    return data.id;
+}
+
 export async function getBitmapInscriptionId(bitmapNumber: number): Promise<string> {
     // first get the sat
     const sat = await getBitmapSat(bitmapNumber);
+    return fetchInscriptionIdOnSat(bitmapNumber, sat);
+}
 
-    // get inscription ID from sat endpoint
-    const response = await fetch(`${ORDINALS_BASE_URL}/r/sat/${sat}/at/${getBitmapSatIndex(bitmapNumber)}`);
-    const data = await response.json();
+/** Sats of bitmaps `start` to `end`, each OCI page is fetched once */
+export async function getBitmapSatsRange(
+    start: number,
+    end: number,
+    options: { signal?: AbortSignal } = {}
+): Promise<number[]> {
+    return lookup({ type: 'sats', start, end }, options.signal);
+}
 
-    return data.id;
+export interface BitmapRangeOptions {
+    /** /r/sat lookups in flight at once, default 4 */
+    concurrency?: number;
+    /** Most /r/sat lookups started per second, default no limit */
+    requestsPerSecond?: number;
+    /** Stops the iteration and cancels lookups in flight */
+    signal?: AbortSignal;
 }
 
-export async function getBitmapSatsRange(start: number, end: number): Promise<number[]> {
-    const arr: number[] = [];
-    const total = (end + 1) - start;
+export interface BitmapInscription {
+    bitmapNumber: number;
+    sat: number;
+    inscriptionId: string;
+}
+
+/**
+ * Inscription IDs of bitmaps `start` to `end` in bitmap order, streamed as
+ * they resolve:
+ *
+ *     for await (const { bitmapNumber, inscriptionId } of getBitmapInscriptionIds(0, 839999)) { ... }
+ *
+ * A failed lookup ends the iteration with its error, resume after the last
+ * bitmap received. Breaking out of the loop cancels lookups in flight.
+ */
+export async function* getBitmapInscriptionIds(
+    start: number,
+    end: number,
+    { concurrency = 4, requestsPerSecond, signal }: BitmapRangeOptions = {}
+): AsyncGenerator<BitmapInscription> {
+    const controller = new AbortController();
+    const stop = () => controller.abort(signal?.reason);
+    if (signal?.aborted) stop();
+    signal?.addEventListener('abort', stop, { once: true });
+
+    try {
+        const sats = await getBitmapSatsRange(start, end, { signal: controller.signal });
+        const interval = requestsPerSecond ? 1000 / requestsPerSecond : 0;
+        let nextStart = 0;
+
+        // lookups run ahead of the consumer by up to `concurrency`, results keep bitmap order
+        const inFlight: Promise<BitmapInscription>[] = [];
+        let next = 0;
+        const startLookup = async (): Promise<BitmapInscription> => {
+            const bitmapNumber = start + next;
+            const sat = sats[next++];
+            const wait = nextStart - Date.now();
+            nextStart = Math.max(nextStart, Date.now()) + interval;
+            if (wait > 0) await abortable(new Promise(resolve => setTimeout(resolve, wait)), controller.signal);
+            const inscriptionId = await fetchInscriptionIdOnSat(bitmapNumber, sat, controller.signal);
+            return { bitmapNumber, sat, inscriptionId };
+        };
+        const fill = () => {
+            while (inFlight.length < Math.max(1, concurrency) && next < sats.length) {
+                const pending = startLookup();
+                // rejections surface when the consumer reaches them
+                pending.catch(() => {});
+                inFlight.push(pending);
+            }
+        };
 
-    for (let i = start; i < (start + total); i++) {
-        const sat = await getBitmapSat(i);
-        arr.push(sat);
+        fill();
+        while (inFlight.length > 0) {
+            const result = await inFlight.shift()!;
+            controller.signal.throwIfAborted();
+            fill();
+            yield result;
+        }
+    } finally {
+        signal?.removeEventListener('abort', stop);
+        // cancels whatever is still in flight when the consumer stops early
+        controller.abort();
     }
+}
 
-    return arr;
+/**
+ * Bitmaps whose sat lies in any of `satRanges`, e.g. an output's `sat_ranges`
+ * from /r/utxo. Ranges are [start, end) like ord's. Loads every OCI page once.
+ */
+export async function getBitmapNumbersForSatRanges(satRanges: [number, number][]): Promise<number[]> {
+    return lookup({ type: 'bitmaps', satRanges });
+}
+
+export async function getBitmapNumberForSat(sat: number): Promise<number | null> {
+    const [bitmapNumber] = await getBitmapNumbersForSatRanges([[sat, sat + 1]]);
+    return bitmapNumber ?? null;
+}
+
+export async function getBitmapNumberForInscription(inscriptionId: string): Promise<number | null> {
+    // the configured indexer, so the network and its cache apply
+    const { sat } = await getIndexer().getInscriptionDetails(inscriptionId);
+    if (sat === null || sat === undefined) return null;
+
+    // other inscriptions can share a bitmap's sat, only the one at its sat index counts
+    for (const bitmapNumber of await getBitmapNumbersForSatRanges([[sat, sat + 1]])) {
+        if (await getBitmapInscriptionId(bitmapNumber) === inscriptionId) return bitmapNumber;
+    }
+    return null;
 }
 
 // Create a bitmap OCI object that matches the expected interface
@@ -116,7 +570,13 @@ export const bitmapOCI = {
     getBitmapSat,
     getBitmapSatIndex,
     getBitmapInscriptionId,
-    getBitmapSatsRange
+    getBitmapSatsRange,
+    getBitmapInscriptionIds,
+    getBitmapNumberForSat,
+    getBitmapNumberForInscription,
+    getBitmapNumbersForSatRanges,
+    getOciHorizon,
+    addOciPages
 };
 
 // For compatibility with the module loader
@@ -0,0 +1,18 @@
+// Fetches and decodes bitmap OCI pages off the main thread, bitmap-oci.ts
+// starts it and posts an id and a query for every lookup.
+
+import { runOciQuery, type OciWorkerRequest, type OciWorkerResponse } from './bitmap-oci';
+
+const scope = self as unknown as {
+    onmessage: ((event: MessageEvent<OciWorkerRequest>) => void) | null;
+    postMessage: (response: OciWorkerResponse) => void;
+};
+
+scope.onmessage = async (event) => {
+    const { id, ...query } = event.data;
+    try {
+        scope.postMessage({ id, result: await runOciQuery(query) });
+    } catch (e) {
+        scope.postMessage({ id, error: e instanceof Error ? e.message : String(e) });
+    }
+};
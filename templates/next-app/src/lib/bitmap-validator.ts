@@ -0,0 +1,468 @@
+// Bitmap and parcel validation rules, free of UI and network dependencies.
+// Every lookup goes through the BitmapFetcher passed to createBitmapValidator,
+// so the same rules run in a component, a Node script or a server route.
+
+import { withRetry, type RetryOptions } from "./retry";
+
+export { isTransientError, type RetryOptions } from "./retry";
+
+/** Bitmaps from this block on are past the original on-chain index, see lib/bitmap-oci.ts */
+export const BITMAP_LIMIT = 840000;
+
+/**
+ * "unverified" passed every check that could run while some were skipped,
+ * "error" could not be checked at all, and "beyond-index" is past the index's
+ * horizon. None of them says the inscription is invalid.
+ */
+export type BitmapValidationStatus =
+  | "valid"
+  | "invalid"
+  | "unverified"
+  | "error"
+  | "beyond-index"
+  | "pending"
+  | "unknown";
+
+/** Why a result or a child of a bitmap is invalid */
+export type BitmapValidationReason =
+  /** Not "<block>.bitmap" or "<parcel>.<block>.bitmap" */
+  | "FORMAT"
+  /** Negative or non-numeric bitmap or parcel number */
+  | "INVALID_NUMBER"
+  /** At or past the validator's horizon, with status "beyond-index" */
+  | "ABOVE_LIMIT"
+  /** The inscription is not the one the index holds for the bitmap */
+  | "INSCRIPTION_MISMATCH"
+  /** The bitmap's inscription does not read "<block>.bitmap" */
+  | "CONTENT_MISMATCH"
+  /** A parcel naming another block than its parent bitmap */
+  | "BLOCK_MISMATCH"
+  /** A parcel number at or past the block's transaction count */
+  | "TX_OVERFLOW"
+  /** A valid claim that an earlier child holds, see ParcelDiagnostic.winner */
+  | "LOST_TIEBREAK"
+  /** A parcel that is not a child of the bitmap's inscription */
+  | "NOT_CHILD"
+  /** No valid child of the bitmap claims the parcel */
+  | "PARCEL_NOT_FOUND"
+  /** A lookup failed after its retries, see details.error */
+  | "NETWORK_ERROR";
+
+/** Outcome for one child of a bitmap */
+export interface ParcelDiagnostic {
+  id: string;
+  /** Missing when the content could not be fetched */
+  content?: string;
+  parcelNumber?: number;
+  /** Block the child was inscribed in, for well-formed claims */
+  height?: number;
+  /** Valid children hold their parcel, "error" ones could not be checked */
+  status: "valid" | "invalid" | "error";
+  reason?: BitmapValidationReason;
+  /** The child holding the parcel, with LOST_TIEBREAK */
+  winner?: { id: string; height: number };
+  /** The failed lookup's error message, with NETWORK_ERROR */
+  error?: string;
+}
+
+export interface ValidParcel {
+  id: string;
+  content: string;
+  height?: number;
+}
+
+export interface BitmapValidationResult {
+  status: BitmapValidationStatus;
+  /** Set when status is "invalid", NETWORK_ERROR for "error" and ABOVE_LIMIT for "beyond-index" */
+  reason?: BitmapValidationReason;
+  details?: {
+    bitmapNumber?: number;
+    parcelNumber?: number;
+    inscriptionId?: string;
+    isParcel?: boolean;
+    validParcels?: ValidParcel[];
+    /** Missing when the children could not be listed */
+    allChildren?: string[];
+    /** Transaction count parcels were checked against, missing for block 0 */
+    txCount?: number;
+    /** Every child of the bitmap in index order, also on parcel results */
+    diagnostics?: ParcelDiagnostic[];
+    /**
+     * Set with "unverified": the transaction count or some children could not
+     * be fetched, so parcels were not fully checked
+     */
+    partial?: boolean;
+    /** The failed lookup's error message, with NETWORK_ERROR */
+    error?: string;
+    /** First bitmap number past the index, with "beyond-index" */
+    horizon?: number;
+  };
+}
+
+/** The lookups validation needs, usually backed by an ord server */
+export interface BitmapFetcher {
+  /** The inscription holding `<bitmapNumber>.bitmap`, from the bitmap index */
+  getBitmapInscriptionId(bitmapNumber: number): Promise<string>;
+  getInscriptionDetails(inscriptionId: string): Promise<{ id: string; height: number }>;
+  /** Every child inscription id */
+  getChildrenInscriptions(inscriptionId: string): Promise<string[]>;
+  getBlockInfo(height: number): Promise<{ transaction_count: number }>;
+  /** Inscription content as trimmed text */
+  fetchInscriptionContent(inscriptionId: string): Promise<string>;
+}
+
+/** Keeps bitmap scans beyond the validator's lifetime, e.g. in IndexedDB */
+export interface BitmapScanStore {
+  get(bitmapNumber: number): Promise<BitmapValidationResult | undefined>;
+  set(bitmapNumber: number, result: BitmapValidationResult): Promise<void>;
+  /** Without a number, every stored scan */
+  delete(bitmapNumber?: number): Promise<void>;
+}
+
+export interface BitmapValidatorOptions extends RetryOptions {
+  /** How long a valid or invalid bitmap scan is reused, defaults to 10 minutes */
+  cacheTtlMs?: number;
+  /** Checked before scanning, and given every valid or invalid scan */
+  store?: BitmapScanStore;
+  /**
+   * Bitmaps from this number on are "beyond-index" rather than checked,
+   * defaults to BITMAP_LIMIT. A function is read on every validation, so the
+   * horizon can follow an index that grows
+   */
+  horizon?: number | (() => number);
+}
+
+export interface BitmapValidator {
+  validateBitmap(bitmapNumber: number, inscriptionId?: string): Promise<BitmapValidationResult>;
+  validateBitmapParcel(
+    bitmapNumber: number,
+    parcelNumber: number,
+    parcelInscriptionId?: string
+  ): Promise<BitmapValidationResult>;
+  /** Validates "<block>.bitmap" or "<parcel>.<block>.bitmap" content */
+  validateBitmapContent(content: string, inscriptionId?: string): Promise<BitmapValidationResult>;
+  /**
+   * Checks a child of bitmap `parentId` as a parcel, without the tiebreak
+   * against its siblings. `txCount` is skipped for block 0.
+   */
+  diagnoseParcel(childId: string, parentId: number, txCount?: number): Promise<ParcelDiagnostic>;
+  /** Drops the cached and stored scan of one bitmap, or of every bitmap */
+  invalidate(bitmapNumber?: number): Promise<void>;
+}
+
+/** Block and optional parcel number of bitmap content, null when it is not bitmap content */
+export function parseBitmapContent(
+  content: string
+): { bitmapNumber: number; parcelNumber?: number } | null {
+  const match = content.match(/^(\d+)(?:\.(\d+))?\.bitmap$/);
+  if (!match) return null;
+  return match[2] === undefined
+    ? { bitmapNumber: parseInt(match[1], 10) }
+    : { bitmapNumber: parseInt(match[2], 10), parcelNumber: parseInt(match[1], 10) };
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Wraps every lookup of `fetcher` in withRetry */
+function withRetries(fetcher: BitmapFetcher, options: RetryOptions): BitmapFetcher {
+  const retry =
+    <A extends unknown[], T>(lookup: (...args: A) => Promise<T>) =>
+    (...args: A): Promise<T> =>
+      withRetry(() => lookup(...args), options);
+
+  return {
+    getBitmapInscriptionId: retry((bitmapNumber) => fetcher.getBitmapInscriptionId(bitmapNumber)),
+    getInscriptionDetails: retry((inscriptionId) => fetcher.getInscriptionDetails(inscriptionId)),
+    getChildrenInscriptions: retry((inscriptionId) => fetcher.getChildrenInscriptions(inscriptionId)),
+    getBlockInfo: retry((height) => fetcher.getBlockInfo(height)),
+    fetchInscriptionContent: retry((inscriptionId) => fetcher.fetchInscriptionContent(inscriptionId)),
+  };
+}
+
+export function createBitmapValidator(
+  lookups: BitmapFetcher,
+  options: BitmapValidatorOptions = {}
+): BitmapValidator {
+  const fetcher = withRetries(lookups, options);
+  const { cacheTtlMs = 10 * 60 * 1000, store, horizon = BITMAP_LIMIT } = options;
+  const currentHorizon = typeof horizon === "function" ? horizon : () => horizon;
+
+  async function diagnoseParcel(
+    childId: string,
+    parentId: number,
+    txCount?: number
+  ): Promise<ParcelDiagnostic> {
+    let content: string;
+    try {
+      content = await fetcher.fetchInscriptionContent(childId);
+    } catch (error) {
+      return { id: childId, status: "error", reason: "NETWORK_ERROR", error: errorMessage(error) };
+    }
+
+    const invalid = (reason: BitmapValidationReason, parcelNumber?: number): ParcelDiagnostic => ({
+      id: childId,
+      content,
+      parcelNumber,
+      status: "invalid",
+      reason,
+    });
+
+    const parts = content.split(".");
+    if (parts.length !== 3 || parts[2] !== "bitmap") return invalid("FORMAT");
+
+    const [parcelNumber, blockNumber] = parts;
+    const parcelNum = parseInt(parcelNumber, 10);
+    if (isNaN(parcelNum) || parcelNum < 0) return invalid("INVALID_NUMBER");
+    if (blockNumber !== parentId.toString()) return invalid("BLOCK_MISMATCH", parcelNum);
+    if (txCount !== undefined && parcelNum >= txCount) return invalid("TX_OVERFLOW", parcelNum);
+
+    return { id: childId, content, parcelNumber: parcelNum, status: "valid" };
+  }
+
+  /**
+   * Scans of a bitmap and all its children, keyed by bitmap number. Parcels of
+   * one bitmap share a scan, and callers arriving while it runs wait for it.
+   */
+  const scans = new Map<number, { result: Promise<BitmapValidationResult>; expiresAt: number }>();
+
+  function cachedScan(bitmapNumber: number) {
+    const cached = scans.get(bitmapNumber);
+    if (cached && cached.expiresAt > Date.now()) return cached.result;
+
+    const entry = { result: storedOrScan(bitmapNumber), expiresAt: Infinity };
+    scans.set(bitmapNumber, entry);
+    entry.result.then(({ status }) => {
+      if (scans.get(bitmapNumber) !== entry) return;
+      // "error" and "unverified" scans are retried on the next call
+      if (status === "valid" || status === "invalid") entry.expiresAt = Date.now() + cacheTtlMs;
+      else scans.delete(bitmapNumber);
+    });
+    return entry.result;
+  }
+
+  async function storedOrScan(bitmapNumber: number) {
+    const stored = await store?.get(bitmapNumber).catch(() => undefined);
+    if (stored) return stored;
+    const result = await scanBitmap(bitmapNumber);
+    if (result.status === "valid" || result.status === "invalid") {
+      store?.set(bitmapNumber, result).catch(() => {});
+    }
+    return result;
+  }
+
+  async function invalidate(bitmapNumber?: number) {
+    if (bitmapNumber === undefined) scans.clear();
+    else scans.delete(bitmapNumber);
+    await store?.delete(bitmapNumber).catch(() => {});
+  }
+
+  async function validateBitmap(
+    bitmapNumber: number,
+    inscriptionId?: string
+  ): Promise<BitmapValidationResult> {
+    if (isNaN(bitmapNumber) || bitmapNumber < 0) {
+      return { status: "invalid", reason: "INVALID_NUMBER", details: { bitmapNumber, inscriptionId } };
+    }
+    const limit = currentHorizon();
+    if (bitmapNumber >= limit) {
+      return {
+        status: "beyond-index",
+        reason: "ABOVE_LIMIT",
+        details: { bitmapNumber, inscriptionId, horizon: limit },
+      };
+    }
+
+    const result = await cachedScan(bitmapNumber);
+    if (result.status === "error") {
+      return { ...result, details: { ...result.details, inscriptionId } };
+    }
+    const actualInscriptionId = result.details?.inscriptionId;
+    if (inscriptionId && actualInscriptionId !== inscriptionId) {
+      return {
+        status: "invalid",
+        reason: "INSCRIPTION_MISMATCH",
+        details: { bitmapNumber, inscriptionId: actualInscriptionId },
+      };
+    }
+    return result;
+  }
+
+  async function scanBitmap(bitmapNumber: number): Promise<BitmapValidationResult> {
+    try {
+      const actualInscriptionId = await fetcher.getBitmapInscriptionId(bitmapNumber);
+      await fetcher.getInscriptionDetails(actualInscriptionId);
+      const content = await fetcher.fetchInscriptionContent(actualInscriptionId);
+      if (!content.includes(bitmapNumber.toString()) || !content.endsWith(".bitmap")) {
+        return {
+          status: "invalid",
+          reason: "CONTENT_MISMATCH",
+          details: { bitmapNumber, inscriptionId: actualInscriptionId },
+        };
+      }
+
+      // Parcels of block 0 are not limited by its transaction count. Elsewhere
+      // a missing count or child list leaves the result partial.
+      let partial = false;
+      let error: string | undefined;
+      let txCount: number | undefined;
+      if (bitmapNumber !== 0) {
+        try {
+          txCount = (await fetcher.getBlockInfo(bitmapNumber)).transaction_count;
+        } catch (blockError) {
+          partial = true;
+          error = errorMessage(blockError);
+        }
+      }
+
+      let children: string[] | undefined;
+      try {
+        children = await fetcher.getChildrenInscriptions(actualInscriptionId);
+      } catch (childrenError) {
+        partial = true;
+        error = errorMessage(childrenError);
+      }
+      const diagnostics = await Promise.all(
+        (children ?? []).map(async (childId): Promise<ParcelDiagnostic> => {
+          const diagnostic = await diagnoseParcel(childId, bitmapNumber, txCount);
+          if (diagnostic.status !== "valid") return diagnostic;
+          try {
+            const { height } = await fetcher.getInscriptionDetails(childId);
+            return { ...diagnostic, height };
+          } catch (error) {
+            return { ...diagnostic, status: "error", reason: "NETWORK_ERROR", error: errorMessage(error) };
+          }
+        })
+      );
+
+      // Earliest block wins each parcel, then the lowest inscription id
+      const winners = new Map<number, ParcelDiagnostic & { height: number }>();
+      for (const diagnostic of diagnostics) {
+        if (diagnostic.status !== "valid" || diagnostic.height === undefined) continue;
+        const current = winners.get(diagnostic.parcelNumber!);
+        if (
+          !current ||
+          diagnostic.height < current.height ||
+          (diagnostic.height === current.height && diagnostic.id < current.id)
+        ) {
+          winners.set(diagnostic.parcelNumber!, { ...diagnostic, height: diagnostic.height });
+        }
+      }
+      for (const diagnostic of diagnostics) {
+        const winner = diagnostic.status === "valid" && winners.get(diagnostic.parcelNumber!);
+        if (winner && winner.id !== diagnostic.id) {
+          diagnostic.status = "invalid";
+          diagnostic.reason = "LOST_TIEBREAK";
+          diagnostic.winner = { id: winner.id, height: winner.height };
+        }
+      }
+
+      // A child that could not be checked might have claimed a parcel first
+      partial ||= diagnostics.some((diagnostic) => diagnostic.status === "error");
+
+      return {
+        status: partial ? "unverified" : "valid",
+        details: {
+          bitmapNumber,
+          inscriptionId: actualInscriptionId,
+          validParcels: Array.from(winners.values()).map(({ id, content, height }) => ({
+            id,
+            content: content!,
+            height,
+          })),
+          allChildren: children,
+          txCount,
+          diagnostics,
+          ...(partial && { partial, error }),
+        },
+      };
+    } catch (error) {
+      return {
+        status: "error",
+        reason: "NETWORK_ERROR",
+        details: { bitmapNumber, error: errorMessage(error) },
+      };
+    }
+  }
+
+  async function validateBitmapParcel(
+    bitmapNumber: number,
+    parcelNumber: number,
+    parcelInscriptionId?: string
+  ): Promise<BitmapValidationResult> {
+    const bitmapResult = await validateBitmap(bitmapNumber);
+    if (bitmapResult.status !== "valid" && bitmapResult.status !== "unverified") {
+      return {
+        ...bitmapResult,
+        details: { ...bitmapResult.details, parcelNumber, isParcel: true },
+      };
+    }
+
+    const { inscriptionId, txCount, allChildren, diagnostics = [], partial, error } =
+      bitmapResult.details ?? {};
+    const parcelDetails = { bitmapNumber, parcelNumber, isParcel: true, txCount, diagnostics };
+    // A claim that passed what could be checked is only unverified on a partial bitmap
+    const passed = partial
+      ? ({ status: "unverified", details: { ...parcelDetails, partial, error } } as const)
+      : ({ status: "valid", details: parcelDetails } as const);
+
+    // A given parcel inscription is judged on its own diagnostic
+    if (parcelInscriptionId) {
+      const diagnostic = diagnostics.find((child) => child.id === parcelInscriptionId);
+      // Without the child list there is no telling whether it is a child
+      if (diagnostic?.status === "error" || (!diagnostic && !allChildren)) {
+        return {
+          status: "error",
+          reason: "NETWORK_ERROR",
+          details: { ...parcelDetails, inscriptionId: parcelInscriptionId, error: diagnostic?.error ?? error },
+        };
+      }
+
+      const reason: BitmapValidationReason | undefined = !diagnostic
+        ? "NOT_CHILD"
+        : diagnostic.status === "invalid"
+          ? diagnostic.reason
+          : diagnostic.parcelNumber !== parcelNumber
+            ? "CONTENT_MISMATCH"
+            : undefined;
+      if (reason) {
+        return { status: "invalid", reason, details: { ...parcelDetails, inscriptionId: parcelInscriptionId } };
+      }
+      const validParcels = bitmapResult.details?.validParcels?.filter(
+        (parcel) => parcel.id === parcelInscriptionId
+      );
+      return { ...passed, details: { ...passed.details, inscriptionId: parcelInscriptionId, validParcels } };
+    }
+
+    const targetParcel = bitmapResult.details?.validParcels?.find(
+      (parcel) => parcel.content === `${parcelNumber}.${bitmapNumber}.bitmap`
+    );
+    if (!targetParcel) {
+      // The parcel may be held by a child that could not be checked
+      const unchecked = !allChildren || diagnostics.some((child) => child.status === "error");
+      return unchecked
+        ? { status: "error", reason: "NETWORK_ERROR", details: { ...parcelDetails, inscriptionId, error } }
+        : { status: "invalid", reason: "PARCEL_NOT_FOUND", details: { ...parcelDetails, inscriptionId } };
+    }
+    return {
+      ...passed,
+      details: { ...passed.details, inscriptionId: targetParcel.id, validParcels: [targetParcel] },
+    };
+  }
+
+  async function validateBitmapContent(
+    content: string,
+    inscriptionId?: string
+  ): Promise<BitmapValidationResult> {
+    const parsed = parseBitmapContent(content);
+    if (!parsed) return { status: "invalid", reason: "FORMAT", details: { inscriptionId } };
+
+    // For parcels the inscription id is the parcel's own
+    return parsed.parcelNumber === undefined
+      ? validateBitmap(parsed.bitmapNumber, inscriptionId)
+      : validateBitmapParcel(parsed.bitmapNumber, parsed.parcelNumber, inscriptionId);
+  }
+
+  return { validateBitmap, validateBitmapParcel, validateBitmapContent, diagnoseParcel, invalidate };
+}
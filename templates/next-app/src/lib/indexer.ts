@@ -0,0 +1,318 @@
+import mempoolJS from "@mempool/mempool.js";
+import { withRetry, type RetryOptions } from "./retry";
+import { networkConfig } from "./network";
+import { cached } from "./persistent-cache";
+import { mempoolHostname, type IndexerKind, type NetworkConfig } from "./networks";
+
+/** `/r/inscription/<id>` response from an ord server */
+export interface InscriptionDetails {
+  id: string;
+  number: number;
+  height: number;
+  content_type?: string;
+  content_length?: number;
+  fee?: number;
+  output?: string;
+  sat?: number | null;
+  satpoint?: string;
+  timestamp?: number;
+  value?: number | null;
+  address?: string | null;
+}
+
+/** `/r/blockinfo/<height>` response, trimmed to what the templates use */
+export interface BlockInfo {
+  hash: string;
+  height: number;
+  transaction_count: number;
+  timestamp?: number;
+}
+
+export interface AddressUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+    block_hash?: string;
+    block_time?: number;
+  };
+}
+
+export interface RuneBalance {
+  amount: number;
+  divisibility: number;
+  symbol?: string;
+}
+
+/** What an output carries, from `/r/utxo/<outpoint>` */
+export interface UtxoAssets {
+  inscriptions: string[];
+  runes: Record<string, RuneBalance>;
+  value?: number;
+  /** [start, end) sat ranges, only from ord servers running with --index-sats */
+  satRanges?: [number, number][];
+}
+
+/**
+ * Source of inscription, block and UTXO data. Every network call the
+ * templates make for ordinals data goes through one of these.
+ */
+export interface IndexerClient {
+  readonly kind: IndexerKind;
+  getInscriptionDetails(inscriptionId: string): Promise<InscriptionDetails>;
+  /** Every child inscription id, following pagination */
+  getChildrenInscriptions(inscriptionId: string): Promise<string[]>;
+  getBlockInfo(height: number): Promise<BlockInfo>;
+  /** Inscription content as trimmed text */
+  fetchInscriptionContent(inscriptionId: string): Promise<string>;
+  getAddressUtxos(address: string): Promise<AddressUtxo[]>;
+  /** Inscriptions and runes on an output, null when the indexer has no record of it */
+  getUtxoAssets(txid: string, vout: number): Promise<UtxoAssets | null>;
+}
+
+/** A failed request, `status` tells retryable server errors from missing data */
+function httpError(what: string, response: Response) {
+  return Object.assign(
+    new Error(`Failed to fetch ${what}: ${response.status} ${response.statusText}`),
+    { status: response.status }
+  );
+}
+
+async function getJson<T>(url: string, what: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) throw httpError(what, response);
+  return response.json();
+}
+
+/** Retries apply to every ord request made while listing address UTXOs */
+export interface OrdIndexerOptions extends RetryOptions {
+  /** /r/utxo lookups in flight at once when listing address UTXOs, default 8 */
+  concurrency?: number;
+  /** Most /r/utxo lookups started per second, default no limit */
+  requestsPerSecond?: number;
+}
+
+/** `fn` over every item with at most `concurrency` calls in flight, results keep item order */
+async function mapPooled<T, R>(
+  items: T[],
+  fn: (item: T) => Promise<R>,
+  { concurrency = 8, requestsPerSecond }: OrdIndexerOptions
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const interval = requestsPerSecond ? 1000 / requestsPerSecond : 0;
+  let next = 0;
+  let nextStart = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const wait = nextStart - Date.now();
+      nextStart = Math.max(nextStart, Date.now()) + interval;
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+      results[index] = await fn(items[index]);
+    }
+  };
+  const workers = Math.min(Math.max(1, concurrency), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/** Chain data from an Esplora compatible API (mempool.space, blockstream.info, electrs) */
+function esploraApi(hostname: string) {
+  return mempoolJS({ hostname }).bitcoin;
+}
+
+/**
+ * A self-hosted `ord server`. Address UTXOs need the server to run with
+ * `--index-addresses`.
+ */
+export class OrdIndexerClient implements IndexerClient {
+  readonly kind: IndexerKind = "ord";
+
+  constructor(
+    protected readonly ordUrl: string,
+    private readonly options: OrdIndexerOptions = {}
+  ) {}
+
+  getInscriptionDetails(inscriptionId: string) {
+    return getJson<InscriptionDetails>(
+      `${this.ordUrl}/r/inscription/${inscriptionId}`,
+      "inscription details"
+    );
+  }
+
+  async getChildrenInscriptions(inscriptionId: string) {
+    const children: string[] = [];
+    for (let page = 0; ; page++) {
+      const url =
+        page === 0
+          ? `${this.ordUrl}/r/children/${inscriptionId}`
+          : `${this.ordUrl}/r/children/${inscriptionId}/${page}`;
+      const response = await fetch(url);
+      // ord answers 404 for inscriptions without children
+      if (response.status === 404 && page === 0) break;
+      if (!response.ok) throw httpError("children", response);
+      const data: { ids?: string[]; more?: boolean } = await response.json();
+      if (!data.ids || data.ids.length === 0) break;
+      children.push(...data.ids);
+      if (!data.more) break;
+    }
+    return children;
+  }
+
+  getBlockInfo(height: number) {
+    return getJson<BlockInfo>(`${this.ordUrl}/r/blockinfo/${height}`, "block info");
+  }
+
+  async fetchInscriptionContent(inscriptionId: string) {
+    const response = await fetch(`${this.ordUrl}/content/${inscriptionId}`);
+    if (!response.ok) throw httpError("content", response);
+    return (await response.text()).trim();
+  }
+
+  async getAddressUtxos(address: string): Promise<AddressUtxo[]> {
+    const { outputs } = await withRetry(
+      () =>
+        getJson<{ outputs: string[] }>(`${this.ordUrl}/address/${address}`, "address outputs", {
+          headers: { Accept: "application/json" },
+        }),
+      this.options
+    );
+    return mapPooled(
+      outputs,
+      async (outpoint) => {
+        const [txid, vout] = outpoint.split(":");
+        const assets = await this.getUtxoAssets(txid, Number(vout));
+        // ord only indexes outputs from mined blocks
+        return { txid, vout: Number(vout), value: assets?.value ?? 0, status: { confirmed: true } };
+      },
+      this.options
+    );
+  }
+
+  async getUtxoAssets(txid: string, vout: number): Promise<UtxoAssets | null> {
+    const data = await withRetry(async () => {
+      const response = await fetch(`${this.ordUrl}/r/utxo/${txid}:${vout}`);
+      // ord answers 404 for outputs it has not indexed
+      if (response.status === 404) return null;
+      if (!response.ok) throw httpError("utxo", response);
+      return response.json();
+    }, this.options);
+    if (!data) return null;
+    return {
+      inscriptions: data.inscriptions ?? [],
+      runes: data.runes ?? {},
+      value: data.value,
+      satRanges: data.sat_ranges ?? undefined,
+    };
+  }
+}
+
+/**
+ * ordinals.com, or any public ord server without an address index. Address
+ * UTXOs come from the network's mempool instance instead.
+ */
+export class OrdinalsComIndexerClient extends OrdIndexerClient {
+  readonly kind: IndexerKind = "ordinals.com";
+
+  constructor(ordUrl: string, private readonly mempoolHostname: string) {
+    super(ordUrl);
+  }
+
+  getAddressUtxos(address: string): Promise<AddressUtxo[]> {
+    const { addresses } = esploraApi(this.mempoolHostname);
+    return withRetry(() => addresses.getAddressTxsUtxo({ address }));
+  }
+}
+
+/**
+ * An Esplora/mempool instance for chain data. Esplora knows nothing about
+ * inscriptions, so those calls go to the ord server it is paired with.
+ */
+export class EsploraIndexerClient implements IndexerClient {
+  readonly kind: IndexerKind = "esplora";
+
+  constructor(
+    private readonly esploraHostname: string,
+    private readonly ord: IndexerClient
+  ) {}
+
+  getInscriptionDetails(inscriptionId: string) {
+    return this.ord.getInscriptionDetails(inscriptionId);
+  }
+
+  getChildrenInscriptions(inscriptionId: string) {
+    return this.ord.getChildrenInscriptions(inscriptionId);
+  }
+
+  async getBlockInfo(height: number): Promise<BlockInfo> {
+    const { blocks } = esploraApi(this.esploraHostname);
+    const hash = await blocks.getBlockHeight({ height });
+    const block = await blocks.getBlock({ hash });
+    return { hash, height, transaction_count: block.tx_count, timestamp: block.timestamp };
+  }
+
+  fetchInscriptionContent(inscriptionId: string) {
+    return this.ord.fetchInscriptionContent(inscriptionId);
+  }
+
+  getAddressUtxos(address: string): Promise<AddressUtxo[]> {
+    const { addresses } = esploraApi(this.esploraHostname);
+    return withRetry(() => addresses.getAddressTxsUtxo({ address }));
+  }
+
+  getUtxoAssets(txid: string, vout: number) {
+    return this.ord.getUtxoAssets(txid, vout);
+  }
+}
+
+export function createIndexerClient(
+  config: NetworkConfig,
+  kind: IndexerKind = config.indexer
+): IndexerClient {
+  switch (kind) {
+    case "ord":
+      return new OrdIndexerClient(config.ordUrl);
+    case "ordinals.com":
+      return new OrdinalsComIndexerClient(config.ordUrl, mempoolHostname(config));
+    case "esplora":
+      return new EsploraIndexerClient(
+        mempoolHostname(config),
+        new OrdIndexerClient(config.ordUrl)
+      );
+  }
+}
+
+/**
+ * Keeps inscription content, block info and children lists in IndexedDB, see
+ * lib/persistent-cache.ts. Content and mined blocks never change, children
+ * lists go stale after an hour.
+ */
+export function withPersistentCache(client: IndexerClient): IndexerClient {
+  return {
+    kind: client.kind,
+    getInscriptionDetails: (inscriptionId) => client.getInscriptionDetails(inscriptionId),
+    getChildrenInscriptions: (inscriptionId) =>
+      cached("children", inscriptionId, () => client.getChildrenInscriptions(inscriptionId)),
+    getBlockInfo: (height) => cached("block-info", String(height), () => client.getBlockInfo(height)),
+    fetchInscriptionContent: (inscriptionId) =>
+      cached("content", inscriptionId, () => client.fetchInscriptionContent(inscriptionId)),
+    getAddressUtxos: (address) => client.getAddressUtxos(address),
+    getUtxoAssets: (txid, vout) => client.getUtxoAssets(txid, vout),
+  };
+}
+
+let indexer = withPersistentCache(createIndexerClient(networkConfig));
+
+/** The client every fetch in the app goes through */
+export function getIndexer(): IndexerClient {
+  return indexer;
+}
+
+/** Switches backends at runtime, by kind or with a custom client */
+export function setIndexer(client: IndexerKind | IndexerClient) {
+  indexer = withPersistentCache(
+    typeof client === "string" ? createIndexerClient(networkConfig, client) : client
+  );
+}
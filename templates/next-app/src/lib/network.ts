@@ -0,0 +1,13 @@
+import { resolveNetworkConfig, type NetworkName } from "./networks";
+
+// Used when NEXT_PUBLIC_NETWORK is not set
+const DEFAULT_NETWORK: NetworkName = "mainnet";
+
+/** Network, mempool and ord settings for the whole app, see .env.local */
+export const networkConfig = resolveNetworkConfig({
+  network: process.env.NEXT_PUBLIC_NETWORK || DEFAULT_NETWORK,
+  mempoolHost: process.env.NEXT_PUBLIC_MEMPOOL_HOST,
+  mempoolPath: process.env.NEXT_PUBLIC_MEMPOOL_PATH,
+  ordUrl: process.env.NEXT_PUBLIC_ORD_URL,
+  indexer: process.env.NEXT_PUBLIC_INDEXER,
+});
@@ -0,0 +1,89 @@
+export type NetworkName = "mainnet" | "testnet" | "testnet4" | "signet" | "regtest";
+
+/** Backend for inscription and UTXO data, see lib/indexer.ts */
+export type IndexerKind = "ord" | "ordinals.com" | "esplora";
+
+const indexerKinds: IndexerKind[] = ["ord", "ordinals.com", "esplora"];
+
+export interface NetworkConfig {
+  network: NetworkName;
+  /** mempool.space compatible host, e.g. "mempool.space" or "localhost:8080" */
+  mempoolHost: string;
+  /** Path of the network on the mempool host, e.g. "/signet" */
+  mempoolPath: string;
+  /** ord server base URL without a trailing slash */
+  ordUrl: string;
+  indexer: IndexerKind;
+}
+
+export const networkDefaults: Record<NetworkName, Omit<NetworkConfig, "network">> = {
+  mainnet: {
+    mempoolHost: "mempool.space",
+    mempoolPath: "",
+    ordUrl: "https://ordinals.com",
+    indexer: "ordinals.com",
+  },
+  testnet: {
+    mempoolHost: "mempool.space",
+    mempoolPath: "/testnet",
+    ordUrl: "https://testnet.ordinals.com",
+    indexer: "ordinals.com",
+  },
+  testnet4: {
+    mempoolHost: "mempool.space",
+    mempoolPath: "/testnet4",
+    ordUrl: "https://testnet4.ordinals.com",
+    indexer: "ordinals.com",
+  },
+  signet: {
+    mempoolHost: "mempool.space",
+    mempoolPath: "/signet",
+    ordUrl: "https://signet.ordinals.com",
+    indexer: "ordinals.com",
+  },
+  // Local mempool and `ord --regtest server --index-addresses`
+  regtest: {
+    mempoolHost: "localhost:8080",
+    mempoolPath: "",
+    ordUrl: "http://localhost",
+    indexer: "ord",
+  },
+};
+
+export interface NetworkEnv {
+  network: string;
+  mempoolHost?: string;
+  mempoolPath?: string;
+  ordUrl?: string;
+  indexer?: string;
+}
+
+/**
+ * Fills in the defaults for the selected network. Empty overrides count as
+ * unset so .env.local can list every variable.
+ */
+export function resolveNetworkConfig(env: NetworkEnv): NetworkConfig {
+  if (!(env.network in networkDefaults)) {
+    throw new Error(
+      `Unknown network "${env.network}", expected one of ${Object.keys(networkDefaults).join(", ")}`
+    );
+  }
+  if (env.indexer && !indexerKinds.includes(env.indexer as IndexerKind)) {
+    throw new Error(`Unknown indexer "${env.indexer}", expected one of ${indexerKinds.join(", ")}`);
+  }
+  const network = env.network as NetworkName;
+  const defaults = networkDefaults[network];
+  return {
+    network,
+    mempoolHost: env.mempoolHost || defaults.mempoolHost,
+    // A custom mempool host serves its network at the root unless a path is set
+    mempoolPath: env.mempoolPath || (env.mempoolHost ? "" : defaults.mempoolPath),
+    ordUrl: (env.ordUrl || defaults.ordUrl).replace(/\/+$/, ""),
+    indexer: (env.indexer as IndexerKind) || defaults.indexer,
+  };
+}
+
+/** Hostname argument for mempool.js, which appends /api itself */
+export function mempoolHostname(config: NetworkConfig) {
+  return config.mempoolHost + config.mempoolPath;
+}
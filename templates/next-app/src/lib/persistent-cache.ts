@@ -0,0 +1,159 @@
+// IndexedDB cache for data that survives page reloads: bitmap OCI pages,
+// inscription content, block transaction counts, children lists and bitmap
+// scans. Without IndexedDB (server rendering, Node, private modes) every call
+// is a miss and writes are dropped, and cache failures never fail a lookup.
+
+import { networkConfig } from "./network";
+
+const DB_NAME = "lasereyes-cache";
+/** Bump when a store or its records change shape, older databases are dropped */
+export const CACHE_SCHEMA_VERSION = 1;
+
+export type CacheStore = "oci-pages" | "content" | "block-info" | "children" | "validation";
+
+interface StorePolicy {
+  /** Oldest records are evicted past this size */
+  maxBytes: number;
+  /** Records older than this are stale, immutable data never is */
+  maxAgeMs?: number;
+}
+
+const MB = 1024 * 1024;
+const HOUR = 60 * 60 * 1000;
+
+export const cachePolicies: Record<CacheStore, StorePolicy> = {
+  // Eight pages of 100k sats each, fixed for good
+  "oci-pages": { maxBytes: 16 * MB },
+  content: { maxBytes: 8 * MB },
+  // Transaction counts of mined blocks do not change
+  "block-info": { maxBytes: 1 * MB },
+  // New parcels can be inscribed under a bitmap at any time
+  children: { maxBytes: 4 * MB, maxAgeMs: HOUR },
+  // Scans depend on children lists, so they go stale with them
+  validation: { maxBytes: 8 * MB, maxAgeMs: HOUR },
+};
+
+interface CacheRecord<T = unknown> {
+  key: string;
+  value: T;
+  storedAt: number;
+  /** Approximate size in bytes, for the store's limit */
+  size: number;
+}
+
+let database: Promise<IDBDatabase | null> | undefined;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  database ??= new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, CACHE_SCHEMA_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of Array.from(db.objectStoreNames)) db.deleteObjectStore(name);
+      for (const name of Object.keys(cachePolicies)) {
+        // Eviction walks this index oldest first without loading values
+        db.createObjectStore(name, { keyPath: "key" }).createIndex("age", ["storedAt", "size"]);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+    request.onblocked = () => resolve(null);
+  });
+  return database;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  store: CacheStore,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => Promise<T>
+): Promise<T | undefined> {
+  try {
+    const db = await openDatabase();
+    if (!db) return undefined;
+    return await run(db.transaction(store, mode).objectStore(store));
+  } catch {
+    return undefined;
+  }
+}
+
+// Data differs per network and per ord server, e.g. the mock server
+const namespaced = (key: string) => `${networkConfig.network}|${networkConfig.ordUrl}|${key}`;
+
+export async function cacheGet<T>(store: CacheStore, key: string): Promise<T | undefined> {
+  const record = await withStore(store, "readonly", (objectStore) =>
+    promisify<CacheRecord<T> | undefined>(objectStore.get(namespaced(key)))
+  );
+  if (!record) return undefined;
+  const { maxAgeMs } = cachePolicies[store];
+  if (maxAgeMs !== undefined && Date.now() - record.storedAt > maxAgeMs) return undefined;
+  return record.value;
+}
+
+export async function cacheSet<T>(store: CacheStore, key: string, value: T): Promise<void> {
+  const { maxBytes } = cachePolicies[store];
+  const size = JSON.stringify(value)?.length ?? 0;
+  // One record may not push everything else out
+  if (size > maxBytes / 4) return;
+
+  const record: CacheRecord<T> = { key: namespaced(key), value, storedAt: Date.now(), size };
+  await withStore(store, "readwrite", async (objectStore) => {
+    await promisify(objectStore.put(record));
+    await evict(objectStore, maxBytes);
+  });
+}
+
+/** Deletes oldest records first until the store fits its limit */
+async function evict(objectStore: IDBObjectStore, maxBytes: number) {
+  const records = await new Promise<{ key: IDBValidKey; size: number }[]>((resolve, reject) => {
+    const found: { key: IDBValidKey; size: number }[] = [];
+    const request = objectStore.index("age").openKeyCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve(found);
+      found.push({ key: cursor.primaryKey, size: (cursor.key as [number, number])[1] });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  let total = records.reduce((sum, record) => sum + record.size, 0);
+  for (const record of records) {
+    if (total <= maxBytes) break;
+    objectStore.delete(record.key);
+    total -= record.size;
+  }
+}
+
+/** Deletes one key, or the whole store */
+export async function cacheDelete(store: CacheStore, key?: string): Promise<void> {
+  await withStore(store, "readwrite", (objectStore) =>
+    promisify(key === undefined ? objectStore.clear() : objectStore.delete(namespaced(key)))
+  );
+}
+
+/** Reads `key` from the cache, or loads and stores it */
+export async function cached<T>(
+  store: CacheStore,
+  key: string,
+  load: () => Promise<T>
+): Promise<T> {
+  const hit = await cacheGet<T>(store, key);
+  if (hit !== undefined) return hit;
+  const value = await load();
+  void cacheSet(store, key, value);
+  return value;
+}
+
+/** Empties every store, for a "clear cache" control */
+export async function clearPersistentCache(): Promise<void> {
+  await Promise.all(
+    (Object.keys(cachePolicies) as CacheStore[]).map((store) => cacheDelete(store))
+  );
+}
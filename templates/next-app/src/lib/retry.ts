@@ -0,0 +1,36 @@
+// Retries for lookups against ord, mempool or any other HTTP API, shared by
+// the indexer clients and the bitmap validator.
+
+export interface RetryOptions {
+  /** Extra attempts for a lookup that failed transiently, defaults to 2 */
+  retries?: number;
+  /** Wait before the first retry, doubled for each one after, defaults to 500ms */
+  retryDelayMs?: number;
+}
+
+/**
+ * Failures worth retrying: timeouts, rate limits, server errors and anything
+ * without an HTTP status such as a dropped connection
+ */
+export function isTransientError(error: unknown): boolean {
+  // fetch errors from lib/indexer.ts carry `status`, axios errors `response.status`
+  const failure = error as { status?: unknown; response?: { status?: unknown } } | null;
+  const status = failure?.status ?? failure?.response?.status;
+  if (typeof status !== "number") return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/** Runs `lookup` again after transient failures, with exponential backoff */
+export async function withRetry<T>(
+  lookup: () => Promise<T>,
+  { retries = 2, retryDelayMs = 500 }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await lookup();
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error)) throw error;
+      await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** attempt));
+    }
+  }
+}
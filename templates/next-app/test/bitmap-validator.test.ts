@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createBitmapValidator,
+  parseBitmapContent,
+  type BitmapFetcher,
+  type BitmapScanStore,
+  type BitmapValidationResult,
+} from "../src/lib/bitmap-validator";
+
+const bitmapId = "b".repeat(64) + "i0";
+const parcelId = "c".repeat(64) + "i0";
+
+/** An in-memory fetcher for 42.bitmap with a single parcel, 0.42.bitmap */
+function memoryFetcher(overrides: Partial<BitmapFetcher> = {}): BitmapFetcher {
+  const contents: Record<string, string> = { [bitmapId]: "42.bitmap", [parcelId]: "0.42.bitmap" };
+  return {
+    getBitmapInscriptionId: vi.fn(async () => bitmapId),
+    getInscriptionDetails: vi.fn(async (id: string) => ({ id, height: 800000 })),
+    getChildrenInscriptions: vi.fn(async (id: string) => (id === bitmapId ? [parcelId] : [])),
+    getBlockInfo: vi.fn(async () => ({ transaction_count: 2 })),
+    fetchInscriptionContent: vi.fn(async (id: string) => contents[id]),
+    ...overrides,
+  };
+}
+
+describe("parseBitmapContent", () => {
+  it("parses bitmaps and parcels", () => {
+    expect(parseBitmapContent("42.bitmap")).toEqual({ bitmapNumber: 42 });
+    expect(parseBitmapContent("0.42.bitmap")).toEqual({ bitmapNumber: 42, parcelNumber: 0 });
+    expect(parseBitmapContent("42")).toBeNull();
+  });
+});
+
+describe("createBitmapValidator", () => {
+  it("validates through the injected fetcher", async () => {
+    const fetcher = memoryFetcher();
+    const result = await createBitmapValidator(fetcher).validateBitmapContent("0.42.bitmap", parcelId);
+
+    expect(result).toEqual({
+      status: "valid",
+      details: {
+        bitmapNumber: 42,
+        parcelNumber: 0,
+        isParcel: true,
+        inscriptionId: parcelId,
+        validParcels: [{ id: parcelId, content: "0.42.bitmap", height: 800000 }],
+        txCount: 2,
+        diagnostics: [
+          { id: parcelId, content: "0.42.bitmap", parcelNumber: 0, height: 800000, status: "valid" },
+        ],
+      },
+    });
+    expect(fetcher.getBitmapInscriptionId).toHaveBeenCalledWith(42);
+  });
+
+  it("rejects bad input without any lookups", async () => {
+    const fetcher = memoryFetcher();
+    const validator = createBitmapValidator(fetcher);
+
+    expect((await validator.validateBitmapContent("42")).reason).toBe("FORMAT");
+    expect((await validator.validateBitmap(-1)).reason).toBe("INVALID_NUMBER");
+    expect((await validator.validateBitmap(840000)).status).toBe("beyond-index");
+    expect(fetcher.getBitmapInscriptionId).not.toHaveBeenCalled();
+  });
+
+  it("reads the horizon on every validation", async () => {
+    let horizon = 42;
+    const validator = createBitmapValidator(memoryFetcher(), { horizon: () => horizon });
+
+    expect(await validator.validateBitmap(42)).toMatchObject({
+      status: "beyond-index",
+      reason: "ABOVE_LIMIT",
+      details: { bitmapNumber: 42, horizon: 42 },
+    });
+    horizon = 43;
+    expect((await validator.validateBitmap(42)).status).toBe("valid");
+  });
+
+  it("reports lookups that keep failing as an error, not as invalid", async () => {
+    const getBitmapInscriptionId = vi.fn(async () => Promise.reject(new Error("timeout")));
+    const validator = createBitmapValidator(memoryFetcher({ getBitmapInscriptionId }), {
+      retryDelayMs: 0,
+    });
+
+    expect(await validator.validateBitmap(42)).toEqual({
+      status: "error",
+      reason: "NETWORK_ERROR",
+      details: { bitmapNumber: 42, inscriptionId: undefined, error: "timeout" },
+    });
+    expect(getBitmapInscriptionId).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries transient failures but not missing data", async () => {
+    const unavailable = Object.assign(new Error("503"), { status: 503 });
+    const notFound = Object.assign(new Error("404"), { status: 404 });
+    const getBitmapInscriptionId = vi
+      .fn<BitmapFetcher["getBitmapInscriptionId"]>()
+      .mockRejectedValueOnce(unavailable)
+      .mockResolvedValue(bitmapId);
+    const fetchInscriptionContent = vi.fn(async (id: string) => {
+      if (id === parcelId) throw notFound;
+      return "42.bitmap";
+    });
+    const validator = createBitmapValidator(
+      memoryFetcher({ getBitmapInscriptionId, fetchInscriptionContent }),
+      { retryDelayMs: 0 }
+    );
+
+    const result = await validator.validateBitmap(42);
+
+    expect(getBitmapInscriptionId).toHaveBeenCalledTimes(2);
+    expect(fetchInscriptionContent.mock.calls.filter(([id]) => id === parcelId)).toHaveLength(1);
+    expect(result.status).toBe("unverified");
+    expect(result.details?.diagnostics).toEqual([
+      { id: parcelId, status: "error", reason: "NETWORK_ERROR", error: "404" },
+    ]);
+  });
+
+  it("marks results without a transaction count as unverified", async () => {
+    const validator = createBitmapValidator(
+      memoryFetcher({ getBlockInfo: async () => Promise.reject(new Error("block unavailable")) }),
+      { retries: 0 }
+    );
+
+    const bitmap = await validator.validateBitmap(42);
+    expect(bitmap.status).toBe("unverified");
+    expect(bitmap.details).toMatchObject({ partial: true, error: "block unavailable", txCount: undefined });
+
+    const parcel = await validator.validateBitmapParcel(42, 0, parcelId);
+    expect(parcel.status).toBe("unverified");
+    expect(parcel.details).toMatchObject({ partial: true, inscriptionId: parcelId });
+  });
+
+  it("cannot tell a parcel's parent without the child list", async () => {
+    const validator = createBitmapValidator(
+      memoryFetcher({ getChildrenInscriptions: async () => Promise.reject(new Error("timeout")) }),
+      { retries: 0 }
+    );
+
+    expect((await validator.validateBitmap(42)).status).toBe("unverified");
+    expect(await validator.validateBitmapParcel(42, 0, parcelId)).toMatchObject({
+      status: "error",
+      reason: "NETWORK_ERROR",
+    });
+  });
+});
+
+describe("scan cache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shares one children scan between parcels of a bitmap", async () => {
+    const fetcher = memoryFetcher();
+    const validator = createBitmapValidator(fetcher);
+
+    const results = await Promise.all([
+      validator.validateBitmapParcel(42, 0, parcelId),
+      validator.validateBitmapParcel(42, 1),
+      validator.validateBitmap(42),
+    ]);
+    await validator.validateBitmapContent("0.42.bitmap", parcelId);
+
+    expect(results.map((result) => result.status)).toEqual(["valid", "invalid", "valid"]);
+    expect(fetcher.getBitmapInscriptionId).toHaveBeenCalledTimes(1);
+    expect(fetcher.getChildrenInscriptions).toHaveBeenCalledTimes(1);
+  });
+
+  it("scans again once the TTL passes or the bitmap is invalidated", async () => {
+    vi.useFakeTimers();
+    const fetcher = memoryFetcher();
+    const validator = createBitmapValidator(fetcher, { cacheTtlMs: 1000 });
+
+    await validator.validateBitmap(42);
+    vi.advanceTimersByTime(999);
+    await validator.validateBitmap(42);
+    expect(fetcher.getChildrenInscriptions).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await validator.validateBitmap(42);
+    expect(fetcher.getChildrenInscriptions).toHaveBeenCalledTimes(2);
+
+    validator.invalidate(42);
+    await validator.validateBitmap(42);
+    expect(fetcher.getChildrenInscriptions).toHaveBeenCalledTimes(3);
+  });
+
+  it("reads and writes scans through the store", async () => {
+    const stored = new Map<number, BitmapValidationResult>();
+    const store: BitmapScanStore = {
+      get: async (bitmapNumber) => stored.get(bitmapNumber),
+      set: async (bitmapNumber, result) => void stored.set(bitmapNumber, result),
+      delete: async (bitmapNumber) =>
+        void (bitmapNumber === undefined ? stored.clear() : stored.delete(bitmapNumber)),
+    };
+    const first = memoryFetcher();
+    await createBitmapValidator(first, { store }).validateBitmap(42);
+    expect(stored.get(42)?.status).toBe("valid");
+
+    // A fresh validator, as after a page reload
+    const second = memoryFetcher();
+    const validator = createBitmapValidator(second, { store });
+    expect((await validator.validateBitmap(42)).status).toBe("valid");
+    expect(second.getBitmapInscriptionId).not.toHaveBeenCalled();
+
+    await validator.invalidate(42);
+    expect(stored.has(42)).toBe(false);
+  });
+
+  it("does not keep scans that could not be completed", async () => {
+    const getBlockInfo = vi
+      .fn<BitmapFetcher["getBlockInfo"]>()
+      .mockRejectedValueOnce(new Error("timeout"))
+      .mockResolvedValue({ transaction_count: 2 });
+    const validator = createBitmapValidator(memoryFetcher({ getBlockInfo }), { retries: 0 });
+
+    expect((await validator.validateBitmap(42)).status).toBe("unverified");
+    expect((await validator.validateBitmap(42)).status).toBe("valid");
+  });
+});
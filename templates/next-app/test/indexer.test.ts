@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { OrdIndexerClient } from "../src/lib/indexer";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("OrdIndexerClient", () => {
+  it("looks up address outputs through a bounded pool", async () => {
+    const outputs = Array.from({ length: 20 }, (_, i) => `${"a".repeat(64)}:${i}`);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    vi.stubGlobal("fetch", async (url: string) => {
+      if (url.endsWith("/address/bc1qtest")) return Response.json({ outputs });
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      const vout = Number(url.split(":").pop());
+      return Response.json({ value: 1000 + vout, inscriptions: [], runes: {} });
+    });
+
+    const client = new OrdIndexerClient("http://mock", { concurrency: 3 });
+    const utxos = await client.getAddressUtxos("bc1qtest");
+
+    expect(maxInFlight).toBe(3);
+    expect(utxos.map((utxo) => utxo.value)).toEqual(outputs.map((_, i) => 1000 + i));
+  });
+
+  it("retries rate limited /r/utxo lookups and only takes 404 for a missing output", async () => {
+    const responses: Record<string, number[]> = { "0": [429, 200], "1": [404] };
+    vi.stubGlobal("fetch", async (url: string) => {
+      if (url.endsWith("/address/bc1qtest")) {
+        return Response.json({ outputs: [`${"a".repeat(64)}:0`, `${"a".repeat(64)}:1`] });
+      }
+      const status = responses[url.split(":").pop()!].shift()!;
+      return status === 200
+        ? Response.json({ value: 546, inscriptions: [], runes: {} })
+        : new Response(null, { status });
+    });
+
+    const client = new OrdIndexerClient("http://mock", { retryDelayMs: 0 });
+
+    expect((await client.getAddressUtxos("bc1qtest")).map((utxo) => utxo.value)).toEqual([546, 0]);
+  });
+
+  it("fails the address listing when ord keeps erroring", async () => {
+    vi.stubGlobal("fetch", async (url: string) =>
+      url.endsWith("/address/bc1qtest")
+        ? Response.json({ outputs: [`${"a".repeat(64)}:0`] })
+        : new Response(null, { status: 503 })
+    );
+
+    const client = new OrdIndexerClient("http://mock", { retryDelayMs: 0 });
+
+    await expect(client.getAddressUtxos("bc1qtest")).rejects.toMatchObject({ status: 503 });
+  });
+});
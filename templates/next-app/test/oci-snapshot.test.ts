@@ -0,0 +1,43 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+import { createMockFetch, loadFixtures } from "../mock/server.mjs";
+import { buildSnapshot, decodeOciPage as decodeSnapshotPage, ociPageIds } from "../scripts/oci-snapshot.mjs";
+import { decodeOciPage } from "../src/lib/bitmap-oci";
+
+const fixtures = loadFixtures(path.join(__dirname, "../mock/fixtures.json"));
+const fetch = createMockFetch(fixtures);
+const out = fs.mkdtempSync(path.join(os.tmpdir(), "oci-snapshot-"));
+
+afterAll(() => {
+  fs.rmSync(out, { recursive: true, force: true });
+});
+
+const sha256 = (data: Buffer | string) => createHash("sha256").update(data).digest("hex");
+
+describe("oci-snapshot", () => {
+  it("writes every page with its hashes", async () => {
+    const manifest = await buildSnapshot({ ordUrl: "http://mock", network: "mainnet", out, fetch });
+
+    expect(manifest.pages).toHaveLength(ociPageIds.length);
+    for (const entry of manifest.pages) {
+      const bytes = fs.readFileSync(path.join(out, entry.file));
+      const source = await fetch(`http://mock/content/${entry.id}`).then((r) => r.text());
+      expect(bytes.length).toBe(100000 * 8);
+      expect(entry.sha256).toBe(sha256(bytes));
+      expect(entry.sourceSha256).toBe(sha256(source));
+    }
+
+    const page0 = fs.readFileSync(path.join(out, "0.bin"));
+    for (const [bitmap, id] of Object.entries<string>(fixtures.bitmaps)) {
+      expect(page0.readDoubleLE(Number(bitmap) * 8)).toBe(fixtures.inscriptions[id].sat);
+    }
+  });
+
+  it.each([0, 2, 3, 8])("decodes page %i like bitmap-oci.ts", async (page) => {
+    const text = await fetch(`http://mock/content/${ociPageIds[page]}`).then((r) => r.text());
+    expect(Array.from(decodeSnapshotPage(page, text))).toEqual(decodeOciPage(page, text));
+  });
+});
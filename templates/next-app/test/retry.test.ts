@@ -0,0 +1,25 @@
+import { describe, expect, it, vi } from "vitest";
+import { withRetry } from "../src/lib/retry";
+
+describe("withRetry", () => {
+  it("retries transient failures with their fetch or axios status", async () => {
+    const unavailable = Object.assign(new Error("503"), { status: 503 });
+    const rateLimited = Object.assign(new Error("429"), { response: { status: 429 } });
+    const notFound = Object.assign(new Error("404"), { response: { status: 404 } });
+    const lookup = vi
+      .fn()
+      .mockRejectedValueOnce(unavailable)
+      .mockRejectedValueOnce(rateLimited)
+      .mockRejectedValue(notFound);
+
+    await expect(withRetry(lookup, { retries: 5, retryDelayMs: 0 })).rejects.toBe(notFound);
+    expect(lookup).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after the last retry", async () => {
+    const lookup = vi.fn().mockRejectedValue(new Error("connection reset"));
+
+    await expect(withRetry(lookup, { retries: 1, retryDelayMs: 0 })).rejects.toThrow("connection reset");
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+});
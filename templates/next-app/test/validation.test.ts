@@ -0,0 +1,459 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createMockFetch } from "../mock/server.mjs";
+import {
+  addOciPages,
+  getBitmapInscriptionIds,
+  getBitmapNumberForInscription,
+  getBitmapNumberForSat,
+  getBitmapNumbersForSatRanges,
+  getBitmapSat,
+  getBitmapSatsRange,
+  getOciHorizon,
+} from "../src/lib/bitmap-oci";
+import { getIndexer, setIndexer } from "../src/lib/indexer";
+import {
+  diagnoseParcel,
+  findBitmapInOutput,
+  validateBitmap,
+  validateBitmapContent,
+  validateBitmapParcel,
+} from "../src/lib/utils";
+
+interface FixtureInscription {
+  number: number;
+  height: number;
+  content: string;
+  sat?: number;
+  parents?: string[];
+}
+
+const inscriptions: Record<string, FixtureInscription> = {};
+const bitmaps: Record<string, string> = {};
+const blocks: Record<string, { hash: string; transaction_count: number; timestamp: number }> = {};
+
+// Ids are zero padded hex, so comparing them as strings compares the numbers
+const toId = (n: number) => `${n.toString(16).padStart(64, "0")}i0`;
+let inscriptionCount = 0;
+
+function inscribe(
+  content: string,
+  { id = toId(0x100000 + inscriptionCount), height = 800000, sat, parent }: {
+    id?: string;
+    height?: number;
+    sat?: number;
+    parent?: string;
+  } = {}
+) {
+  inscriptions[id] = {
+    number: inscriptionCount++,
+    height,
+    content,
+    sat,
+    parents: parent ? [parent] : [],
+  };
+  return id;
+}
+
+function block(height: number, transactionCount: number) {
+  blocks[height] = {
+    hash: height.toString(16).padStart(64, "0"),
+    transaction_count: transactionCount,
+    timestamp: 1231006505 + height * 600,
+  };
+}
+
+// 177700.bitmap, block 177700 has 6 transactions
+block(177700, 6);
+const bitmap177700 = inscribe("177700.bitmap", { sat: 1_000_000_000, height: 177750 });
+bitmaps[177700] = bitmap177700;
+
+// The README's tiebreaker claimants for 0.177700.bitmap
+const laterClaimant = inscribe("0.177700.bitmap", { id: toId(0xabc123), height: 177800, parent: bitmap177700 });
+const winningClaimant = inscribe("0.177700.bitmap", { id: toId(0xdef456), height: 177750, parent: bitmap177700 });
+const sameBlockClaimant = inscribe("0.177700.bitmap", { id: toId(0xf00789), height: 177750, parent: bitmap177700 });
+const parcel5 = inscribe("5.177700.bitmap", { parent: bitmap177700 });
+const overflowParcel = inscribe("6.177700.bitmap", { parent: bitmap177700 });
+const wrongBlockParcel = inscribe("0.177701.bitmap", { parent: bitmap177700 });
+const negativeParcel = inscribe("-1.177700.bitmap", { parent: bitmap177700 });
+const nonNumericParcel = inscribe("abc.177700.bitmap", { parent: bitmap177700 });
+const missingSuffixParcel = inscribe("0.177700", { parent: bitmap177700 });
+// Enough children to spill onto a second /r/children page
+for (let i = 0; i < 110; i++) inscribe("gm", { parent: bitmap177700 });
+const secondPageParcel = inscribe("3.177700.bitmap", { parent: bitmap177700 });
+// A later inscription on the same sat is not the bitmap
+const reinscribedCopy = inscribe("177700.bitmap", { sat: 1_000_000_000 });
+
+// The next block's bitmap, 0.177701.bitmap above is not its child
+block(177701, 2);
+bitmaps[177701] = inscribe("177701.bitmap", { sat: 5_000_000_000 });
+
+// Genesis block: parcels are not checked against its transaction count
+block(0, 1);
+const bitmap0 = inscribe("0.bitmap", { sat: 2_000_000_000 });
+bitmaps[0] = bitmap0;
+const genesisParcel = inscribe("1.0.bitmap", { parent: bitmap0 });
+
+// 92871.bitmap is the second inscription on its sat (satIndices in bitmap-oci.ts)
+block(92871, 3);
+const earlierOnSat = inscribe("not a bitmap", { sat: 3_000_000_000 });
+const bitmap92871 = inscribe("92871.bitmap", { sat: 3_000_000_000 });
+bitmaps[92871] = bitmap92871;
+
+// The OCI points at an inscription with the wrong content
+block(7, 1);
+bitmaps[7] = inscribe("8.bitmap", { sat: 4_000_000_000 });
+
+// A supplementary OCI page for 840000-840999, published after the original nine
+block(840000, 1);
+const bitmap840000 = inscribe("840000.bitmap", { sat: 6_000_000_000 });
+const supplementaryPage = inscribe(JSON.stringify([[6_000_000_000], [0]]));
+
+beforeAll(() => {
+  vi.stubGlobal(
+    "fetch",
+    createMockFetch({ addresses: {}, utxos: {}, inscriptions, blocks, bitmaps })
+  );
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("diagnoseParcel", () => {
+  it.each([
+    ["0.177700.bitmap", winningClaimant, 177700, 6, 0],
+    ["5.177700.bitmap", parcel5, 177700, 6, 5],
+    ["1.0.bitmap", genesisParcel, 0, undefined, 1],
+  ])("accepts %s", async (content, childId, parent, txCount, parcelNumber) => {
+    expect(await diagnoseParcel(childId, parent, txCount)).toEqual({
+      id: childId,
+      content,
+      parcelNumber,
+      status: "valid",
+    });
+  });
+
+  it.each([
+    ["6.177700.bitmap", overflowParcel, "TX_OVERFLOW"],
+    ["0.177701.bitmap", wrongBlockParcel, "BLOCK_MISMATCH"],
+    ["-1.177700.bitmap", negativeParcel, "INVALID_NUMBER"],
+    ["abc.177700.bitmap", nonNumericParcel, "INVALID_NUMBER"],
+    ["0.177700", missingSuffixParcel, "FORMAT"],
+  ])("rejects %s", async (content, childId, reason) => {
+    expect(await diagnoseParcel(childId, 177700, 6)).toMatchObject({
+      id: childId,
+      content,
+      status: "invalid",
+      reason,
+    });
+  });
+
+  it("reports a child whose content cannot be fetched", async () => {
+    expect(await diagnoseParcel(toId(0xdead), 177700, 6)).toMatchObject({
+      status: "error",
+      reason: "NETWORK_ERROR",
+    });
+  });
+});
+
+describe("validateBitmap", () => {
+  it("collects valid parcels across paginated children", async () => {
+    const result = await validateBitmap(177700);
+
+    expect(result.status).toBe("valid");
+    expect(result.details?.inscriptionId).toBe(bitmap177700);
+    expect(result.details?.allChildren).toHaveLength(120);
+    expect(result.details?.validParcels?.map((parcel) => parcel.content).sort()).toEqual([
+      "0.177700.bitmap",
+      "3.177700.bitmap",
+      "5.177700.bitmap",
+    ]);
+    expect(result.details?.validParcels?.map((parcel) => parcel.id)).toContain(secondPageParcel);
+  });
+
+  it("breaks parcel ties by height, then by inscription id", async () => {
+    const result = await validateBitmap(177700);
+    const parcel0 = result.details?.validParcels?.find(
+      (parcel) => parcel.content === "0.177700.bitmap"
+    );
+
+    expect(parcel0).toMatchObject({ id: winningClaimant, height: 177750 });
+    expect(parcel0?.id).not.toBe(laterClaimant);
+    expect(parcel0?.id).not.toBe(sameBlockClaimant);
+  });
+
+  it("diagnoses every child", async () => {
+    const { details } = await validateBitmap(177700);
+    const diagnostic = (id: string) => details?.diagnostics?.find((child) => child.id === id);
+
+    expect(details?.txCount).toBe(6);
+    expect(details?.diagnostics?.map((child) => child.id)).toEqual(details?.allChildren);
+    expect(diagnostic(winningClaimant)).toMatchObject({ status: "valid", height: 177750 });
+    for (const loser of [laterClaimant, sameBlockClaimant]) {
+      expect(diagnostic(loser)).toMatchObject({
+        status: "invalid",
+        reason: "LOST_TIEBREAK",
+        winner: { id: winningClaimant, height: 177750 },
+      });
+    }
+    expect(diagnostic(overflowParcel)?.reason).toBe("TX_OVERFLOW");
+    expect(diagnostic(wrongBlockParcel)?.reason).toBe("BLOCK_MISMATCH");
+  });
+
+  it("skips the transaction count check for block 0", async () => {
+    const result = await validateBitmap(0);
+
+    expect(result.status).toBe("valid");
+    expect(result.details?.validParcels).toEqual([
+      expect.objectContaining({ id: genesisParcel, content: "1.0.bitmap" }),
+    ]);
+  });
+
+  it("uses the sat index for reinscribed bitmaps", async () => {
+    const result = await validateBitmap(92871);
+
+    expect(result.status).toBe("valid");
+    expect(result.details?.inscriptionId).toBe(bitmap92871);
+    expect(result.details?.inscriptionId).not.toBe(earlierOnSat);
+  });
+
+  it("rejects a later reinscription of the bitmap sat", async () => {
+    const result = await validateBitmap(177700, reinscribedCopy);
+
+    expect(result.status).toBe("invalid");
+    expect(result.reason).toBe("INSCRIPTION_MISMATCH");
+  });
+
+  it("rejects content that does not match the bitmap number", async () => {
+    const result = await validateBitmap(7);
+
+    expect(result.status).toBe("invalid");
+    expect(result.reason).toBe("CONTENT_MISMATCH");
+  });
+
+  it("reports bitmaps past the index as beyond-index, not invalid", async () => {
+    const result = await validateBitmap(840000);
+
+    expect(result.status).toBe("beyond-index");
+    expect(result.details?.horizon).toBe(840000);
+  });
+});
+
+describe("validateBitmapParcel", () => {
+  it("accepts the winning claimant", async () => {
+    const result = await validateBitmapParcel(177700, 0, winningClaimant);
+
+    expect(result.status).toBe("valid");
+    expect(result.details).toMatchObject({ parcelNumber: 0, isParcel: true, inscriptionId: winningClaimant });
+  });
+
+  it.each([
+    ["from a later block", laterClaimant],
+    ["from the same block with a larger id", sameBlockClaimant],
+  ])("rejects the claimant %s", async (_label, claimant) => {
+    const result = await validateBitmapParcel(177700, 0, claimant);
+
+    expect(result.status).toBe("invalid");
+    expect(result.reason).toBe("LOST_TIEBREAK");
+  });
+
+  it("rejects a parcel past the block's transaction count", async () => {
+    const result = await validateBitmapParcel(177700, 6, overflowParcel);
+
+    expect(result.status).toBe("invalid");
+    expect(result.reason).toBe("TX_OVERFLOW");
+  });
+
+  it("rejects an inscription that is not a child of the bitmap", async () => {
+    const result = await validateBitmapParcel(177700, 0, reinscribedCopy);
+
+    expect(result.status).toBe("invalid");
+    expect(result.reason).toBe("NOT_CHILD");
+  });
+
+  it("reports a parcel nobody holds", async () => {
+    const result = await validateBitmapParcel(177700, 4);
+
+    expect(result.status).toBe("invalid");
+    expect(result.reason).toBe("PARCEL_NOT_FOUND");
+  });
+});
+
+describe("validateBitmapContent", () => {
+  it.each([
+    ["177700.bitmap", bitmap177700],
+    ["0.177700.bitmap", winningClaimant],
+    ["5.177700.bitmap", parcel5],
+    ["1.0.bitmap", genesisParcel],
+  ])("accepts %s", async (content, inscriptionId) => {
+    expect((await validateBitmapContent(content, inscriptionId)).status).toBe("valid");
+  });
+
+  it.each([
+    ["6.177700.bitmap", overflowParcel, "TX_OVERFLOW"],
+    ["0.177701.bitmap", wrongBlockParcel, "NOT_CHILD"],
+  ])("rejects %s", async (content, inscriptionId, reason) => {
+    const result = await validateBitmapContent(content, inscriptionId);
+
+    expect(result.status).toBe("invalid");
+    expect(result.reason).toBe(reason);
+  });
+
+  it.each(["-1.177700.bitmap", "abc.177700.bitmap", "0.177700", "177700", "1.2.3.bitmap"])(
+    "rejects the format of %s",
+    async (content) => {
+      const result = await validateBitmapContent(content);
+
+      expect(result.status).toBe("invalid");
+      expect(result.reason).toBe("FORMAT");
+    }
+  );
+});
+
+describe("reverse bitmap lookup", () => {
+  it("finds bitmaps by sat", async () => {
+    expect(await getBitmapNumberForSat(1_000_000_000)).toBe(177700);
+    expect(await getBitmapNumberForSat(1_000_000_001)).toBeNull();
+    expect(await getBitmapNumbersForSatRanges([[0, 2_500_000_000], [4_000_000_000, 4_000_000_001]])).toEqual([
+      0, 7, 177700,
+    ]);
+  });
+
+  it.each([
+    [bitmap92871, 92871],
+    [earlierOnSat, null],
+    [reinscribedCopy, null],
+    [parcel5, null],
+  ])("maps inscription %s to its bitmap", async (inscriptionId, bitmapNumber) => {
+    expect(await getBitmapNumberForInscription(inscriptionId)).toBe(bitmapNumber);
+  });
+
+  it("reads an inscription's sat from the configured indexer", async () => {
+    const indexer = getIndexer();
+    const getInscriptionDetails = vi.fn(indexer.getInscriptionDetails);
+    setIndexer({ ...indexer, getInscriptionDetails });
+    try {
+      expect(await getBitmapNumberForInscription(bitmap92871)).toBe(92871);
+      expect(getInscriptionDetails).toHaveBeenCalledWith(bitmap92871);
+    } finally {
+      setIndexer(indexer);
+    }
+  });
+
+  it("finds the bitmap among an output's inscriptions", async () => {
+    const satRanges: [number, number][] = [[2_000_000_000, 2_000_000_546]];
+
+    expect(await findBitmapInOutput([genesisParcel, bitmap0], satRanges)).toEqual({
+      bitmapNumber: 0,
+      inscriptionId: bitmap0,
+    });
+    expect(await findBitmapInOutput([genesisParcel], satRanges)).toBeNull();
+  });
+
+  it("only looks up an output's sats in the full index when asked", async () => {
+    // bitmaps[7] reads "8.bitmap", so only its sat tells it is bitmap 7
+    const satRanges: [number, number][] = [[4_000_000_000, 4_000_000_546]];
+
+    expect(await findBitmapInOutput([bitmaps[7]], satRanges)).toBeNull();
+    expect(await findBitmapInOutput([bitmaps[7]], satRanges, { bySat: true })).toEqual({
+      bitmapNumber: 7,
+      inscriptionId: bitmaps[7],
+    });
+  });
+
+  it("does not take a copy of a bitmap's content for the bitmap", async () => {
+    expect(await findBitmapInOutput([reinscribedCopy], [])).toBeNull();
+    expect(await findBitmapInOutput([reinscribedCopy, bitmap177700], [])).toEqual({
+      bitmapNumber: 177700,
+      inscriptionId: bitmap177700,
+    });
+  });
+});
+
+describe("bulk bitmap lookups", () => {
+  async function collect<T>(iterator: AsyncIterable<T>) {
+    const items: T[] = [];
+    for await (const item of iterator) items.push(item);
+    return items;
+  }
+
+  it("reads a range of sats", async () => {
+    const sats = await getBitmapSatsRange(0, 7);
+
+    expect(sats).toHaveLength(8);
+    expect(sats[0]).toBe(2_000_000_000);
+    expect(sats[7]).toBe(4_000_000_000);
+  });
+
+  it("streams inscription ids in bitmap order", async () => {
+    expect(await collect(getBitmapInscriptionIds(177700, 177701))).toEqual([
+      { bitmapNumber: 177700, sat: 1_000_000_000, inscriptionId: bitmap177700 },
+      { bitmapNumber: 177701, sat: 5_000_000_000, inscriptionId: bitmaps[177701] },
+    ]);
+  });
+
+  it("keeps at most `concurrency` lookups in flight", async () => {
+    const fetch = globalThis.fetch;
+    let inFlight = 0;
+    let peak = 0;
+    vi.stubGlobal("fetch", async (input: string, init?: RequestInit) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return fetch(input, init);
+    });
+
+    try {
+      const items = await collect(getBitmapInscriptionIds(0, 9, { concurrency: 3 }));
+
+      expect(items.map((item) => item.bitmapNumber)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      expect(peak).toBe(3);
+    } finally {
+      vi.stubGlobal("fetch", fetch);
+    }
+  });
+
+  it("spaces lookups by the rate limit", async () => {
+    const started = Date.now();
+    await collect(getBitmapInscriptionIds(0, 4, { requestsPerSecond: 50 }));
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(75);
+  });
+
+  it("stops when the signal aborts", async () => {
+    const controller = new AbortController();
+    const seen: number[] = [];
+
+    await expect(async () => {
+      for await (const { bitmapNumber } of getBitmapInscriptionIds(0, 9, { signal: controller.signal })) {
+        seen.push(bitmapNumber);
+        controller.abort(new Error("stopped"));
+      }
+    }).rejects.toThrow("stopped");
+    expect(seen).toEqual([0]);
+  });
+});
+
+// Runs last, the added page stays registered
+describe("index horizon", () => {
+  it("validates bitmaps covered by supplementary pages", async () => {
+    await addOciPages([{ id: supplementaryPage, first: 840000, last: 840999 }]);
+
+    expect(getOciHorizon()).toBe(841000);
+    expect(await getBitmapSat(840000)).toBe(6_000_000_000);
+    expect(await validateBitmap(840000, bitmap840000)).toMatchObject({ status: "valid" });
+    expect((await validateBitmap(841000)).status).toBe("beyond-index");
+    expect(await getBitmapNumberForSat(6_000_000_000)).toBe(840000);
+  });
+
+  it("refuses pages overlapping the index", async () => {
+    await expect(addOciPages([{ id: toId(0x839000), first: 839000, last: 840500 }])).rejects.toThrow("overlaps");
+    expect(getOciHorizon()).toBe(841000);
+  });
+
+  it("reports the status of a page the ord server cannot serve", async () => {
+    await addOciPages([{ id: toId(0x841000), first: 841000, last: 841999 }]);
+
+    await expect(getBitmapSat(841000)).rejects.toThrow(/^OCI page 10 \(.+\): 404/);
+  });
+});
@@ -0,0 +1,17 @@
+import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import { LaserEyesProvider } from "@omnisat/lasereyes";
+import { ThemeProvider } from "@/components/ThemeProvider";
+import { networkConfig } from "@/lib/network";
+import App from "./App";
+import "./index.css";
+
+createRoot(document.getElementById("root")!).render(
+  <StrictMode>
+    <ThemeProvider defaultTheme="system">
+      <LaserEyesProvider config={{ network: networkConfig.network }}>
+        <App />
+      </LaserEyesProvider>
+    </ThemeProvider>
+  </StrictMode>
+);
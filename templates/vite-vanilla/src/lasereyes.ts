@@ -0,0 +1,6 @@
+import { LaserEyesClient, createConfig, createStores } from "@omnisat/lasereyes-core";
+import { networkConfig } from "./lib/network";
+
+/** Single LaserEyes client shared by the whole page */
+export const client = new LaserEyesClient(createStores(), createConfig({ network: networkConfig.network }));
+client.initialize();
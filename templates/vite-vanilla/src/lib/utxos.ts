@@ -0,0 +1,59 @@
+import { getIndexer } from "./indexer";
+
+export interface Utxo {
+  txid: string;
+  vout: number;
+  value: number;
+  type: "inscription" | "rune" | "cardinal";
+  inscriptionId?: string;
+  /** Inscription content, e.g. "123.bitmap" */
+  content?: string;
+  runeName?: string;
+}
+
+async function fetchContent(inscriptionId: string) {
+  try {
+    return await getIndexer().fetchInscriptionContent(inscriptionId);
+  } catch {
+    return undefined;
+  }
+}
+
+async function categorize(utxo: { txid: string; vout: number; value: number }): Promise<Utxo> {
+  const base = { txid: utxo.txid, vout: utxo.vout, value: utxo.value };
+  try {
+    const assets = await getIndexer().getUtxoAssets(utxo.txid, utxo.vout);
+    if (!assets) return { ...base, type: "cardinal" };
+
+    if (assets.inscriptions.length > 0) {
+      const inscriptionId = assets.inscriptions[0];
+      return { ...base, type: "inscription", inscriptionId, content: await fetchContent(inscriptionId) };
+    }
+    if (Object.keys(assets.runes).length > 0) {
+      return { ...base, type: "rune", runeName: Object.keys(assets.runes)[0] };
+    }
+    return { ...base, type: "cardinal" };
+  } catch {
+    return { ...base, type: "cardinal" };
+  }
+}
+
+/**
+ * Fetches an address's UTXOs and looks up what each one carries through the
+ * configured indexer, calling onBatch as results come in.
+ */
+export async function fetchUtxos(
+  address: string,
+  onBatch: (utxos: Utxo[], done: number, total: number) => void,
+  batchSize = 20
+) {
+  const utxos = await getIndexer().getAddressUtxos(address);
+
+  const results: Utxo[] = [];
+  for (let i = 0; i < utxos.length; i += batchSize) {
+    results.push(...(await Promise.all(utxos.slice(i, i + batchSize).map(categorize))));
+    onBatch([...results], Math.min(i + batchSize, utxos.length), utxos.length);
+  }
+  if (utxos.length === 0) onBatch([], 0, 0);
+  return results;
+}
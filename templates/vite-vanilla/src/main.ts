@@ -0,0 +1,64 @@
+import "./style.css";
+import { client } from "./lasereyes";
+import { clearValidationCache } from "./lib/utils";
+import { fetchUtxos } from "./lib/utxos";
+import { renderUtxos } from "./ui/utxoList";
+import { setupWalletModal } from "./ui/walletModal";
+
+const $ = <T extends HTMLElement>(id: string) => document.getElementById(id) as T;
+
+const connectButton = $<HTMLButtonElement>("connect");
+const addressLabel = $<HTMLSpanElement>("address");
+const title = $<HTMLHeadingElement>("title");
+const utxoSection = $<HTMLElement>("utxos");
+const utxoStatus = $<HTMLParagraphElement>("utxo-status");
+const utxoList = $<HTMLUListElement>("utxo-list");
+const refreshButton = $<HTMLButtonElement>("refresh");
+const clearCacheButton = $<HTMLButtonElement>("clear-cache");
+
+const walletModal = setupWalletModal($<HTMLDialogElement>("wallet-modal"));
+
+let loadedAddress = "";
+
+async function loadUtxos(address: string) {
+  loadedAddress = address;
+  refreshButton.disabled = true;
+  utxoStatus.textContent = "Loading UTXOs...";
+  try {
+    await fetchUtxos(address, (utxos, done, total) => {
+      if (loadedAddress !== address) return;
+      utxoStatus.textContent = done < total ? `Loading UTXOs... ${done}/${total}` : `${total} UTXOs`;
+      renderUtxos(utxoList, utxos);
+    });
+  } catch (error) {
+    utxoStatus.textContent = error instanceof Error ? error.message : "Failed to load UTXOs";
+  } finally {
+    refreshButton.disabled = false;
+  }
+}
+
+connectButton.addEventListener("click", () => {
+  if (client.$store.get().connected) client.disconnect();
+  else walletModal.open();
+});
+refreshButton.addEventListener("click", () => loadUtxos(loadedAddress));
+clearCacheButton.addEventListener("click", async () => {
+  clearCacheButton.disabled = true;
+  await clearValidationCache();
+  clearCacheButton.disabled = false;
+  loadUtxos(loadedAddress);
+});
+
+client.$store.subscribe(({ address, connected, isConnecting }) => {
+  connectButton.textContent = connected ? "Disconnect" : isConnecting ? "Connecting..." : "Connect Wallet";
+  addressLabel.hidden = !connected;
+  addressLabel.textContent = address ? `${address.slice(0, 6)}...${address.slice(-4)}` : "";
+  title.textContent = connected ? "Welcome To Create LaserEyes." : "Welcome To The New Way Of Building.";
+  utxoSection.hidden = !connected;
+
+  if (connected && address && address !== loadedAddress) loadUtxos(address);
+  if (!connected) {
+    loadedAddress = "";
+    utxoList.replaceChildren();
+  }
+});
@@ -0,0 +1,77 @@
+import {
+  getValidationMessage,
+  getValidationStatusIcon,
+  validateBitmapContent,
+  type BitmapValidationResult,
+} from "../lib/utils";
+import type { Utxo } from "../lib/utxos";
+
+const BITMAP_PATTERN = /^\d+(?:\.\d+)?\.bitmap$/;
+
+function badge(content: string, inscriptionId?: string) {
+  const element = document.createElement("span");
+  element.className = "badge badge-pending";
+  element.textContent = `${getValidationStatusIcon("pending")} Pending`;
+
+  const show = (result: BitmapValidationResult) => {
+    const label = (result.status.charAt(0).toUpperCase() + result.status.slice(1)).replace("-", " ");
+    element.className = `badge badge-${result.status}`;
+    element.textContent = `${getValidationStatusIcon(result.status)} ${label}`;
+    // The reason code leads so it can be looked up in lib/bitmap-validator.ts
+    element.title = result.reason
+      ? `${result.reason}: ${getValidationMessage(result)}`
+      : getValidationMessage(result);
+  };
+
+  // The validator caches bitmap scans, so re-renders cost no extra lookups
+  validateBitmapContent(content, inscriptionId).then(show, (err) => {
+    const error = err instanceof Error ? err.message : "Unknown validation error";
+    show({ status: "error", reason: "NETWORK_ERROR", details: { inscriptionId, error } });
+  });
+  return element;
+}
+
+export function renderUtxos(list: HTMLUListElement, utxos: Utxo[]) {
+  list.replaceChildren(
+    ...utxos.map((utxo) => {
+      const item = document.createElement("li");
+      item.className = `utxo utxo-${utxo.type}`;
+
+      const header = document.createElement("div");
+      header.className = "utxo-header";
+      const type = document.createElement("span");
+      type.className = "utxo-type";
+      type.textContent = utxo.type;
+      const value = document.createElement("span");
+      value.className = "utxo-value";
+      value.textContent = `${utxo.value.toLocaleString()} sats`;
+      header.append(type, value);
+
+      const id = document.createElement("code");
+      id.textContent = `${utxo.txid}:${utxo.vout}`;
+      item.append(header, id);
+
+      if (utxo.inscriptionId) {
+        const inscription = document.createElement("code");
+        inscription.className = "utxo-inscription";
+        inscription.textContent = utxo.inscriptionId;
+        item.append(inscription);
+      }
+      if (utxo.runeName) {
+        const rune = document.createElement("span");
+        rune.className = "utxo-rune";
+        rune.textContent = utxo.runeName;
+        item.append(rune);
+      }
+      if (utxo.content && BITMAP_PATTERN.test(utxo.content)) {
+        const bitmap = document.createElement("div");
+        bitmap.className = "utxo-bitmap";
+        const name = document.createElement("strong");
+        name.textContent = utxo.content;
+        bitmap.append(name, badge(utxo.content, utxo.inscriptionId));
+        item.append(bitmap);
+      }
+      return item;
+    })
+  );
+}
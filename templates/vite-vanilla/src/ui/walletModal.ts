@@ -0,0 +1,102 @@
+import { SUPPORTED_WALLETS, type ProviderType } from "@omnisat/lasereyes-core";
+import { client } from "../lasereyes";
+
+// Wallets listed in the dialog, null shows every supported wallet
+const ENABLED_WALLETS = null as string[] | null;
+
+const displayName = (name: string) =>
+  name
+    .replace(/[-_]/g, " ")
+    .split(" ")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(" ");
+
+function render(modal: HTMLDialogElement) {
+  const { hasProvider, provider } = client.$store.get();
+  const wallets = Object.values(SUPPORTED_WALLETS).filter(
+    (wallet) => !ENABLED_WALLETS || ENABLED_WALLETS.includes(wallet.name)
+  );
+
+  modal.replaceChildren();
+
+  const header = document.createElement("div");
+  header.className = "modal-header";
+  const title = document.createElement("h2");
+  title.textContent = "Connect Wallet";
+  const close = document.createElement("button");
+  close.className = "modal-close";
+  close.setAttribute("aria-label", "Close");
+  close.textContent = "✕";
+  close.addEventListener("click", () => modal.close());
+  header.append(title, close);
+
+  // Shown when a wallet rejects or fails to connect
+  const error = document.createElement("p");
+  error.className = "modal-error";
+  error.setAttribute("role", "alert");
+  error.hidden = true;
+
+  const list = document.createElement("div");
+  list.className = "wallet-list";
+  for (const wallet of wallets) {
+    const installed = !!hasProvider[wallet.name as ProviderType];
+    const row = document.createElement("button");
+    row.className = "wallet";
+
+    const name = document.createElement("span");
+    name.textContent = displayName(wallet.name);
+    const status = document.createElement("span");
+    status.className = "wallet-status";
+    status.textContent = !installed ? "Install" : provider === wallet.name ? "Connected" : "Installed";
+    row.append(name, status);
+
+    row.addEventListener("click", async () => {
+      if (!installed) {
+        window.open(wallet.url, "_blank", "noopener,noreferrer");
+        return;
+      }
+      const label = status.textContent;
+      row.disabled = true;
+      error.hidden = true;
+      status.textContent = "Connecting...";
+      try {
+        await client.connect(wallet.name as ProviderType);
+        modal.close();
+      } catch (err) {
+        error.textContent = `Could not connect ${displayName(wallet.name)}: ${
+          err instanceof Error ? err.message : String(err)
+        }`;
+        error.hidden = false;
+        status.textContent = label;
+        row.disabled = false;
+      }
+    });
+    list.append(row);
+  }
+
+  const footer = document.createElement("a");
+  footer.className = "modal-footer";
+  footer.href = "https://www.lasereyes.build/";
+  footer.target = "_blank";
+  footer.rel = "noopener noreferrer";
+  footer.textContent = "Powered by LaserEyes";
+
+  modal.append(header, error, list, footer);
+}
+
+/**
+ * Wallet picker built on a native <dialog>, re-rendered on open so the
+ * installed state is current.
+ */
+export function setupWalletModal(modal: HTMLDialogElement) {
+  modal.addEventListener("click", (event) => {
+    // Clicks on the backdrop land on the dialog element itself
+    if (event.target === modal) modal.close();
+  });
+  return {
+    open() {
+      render(modal);
+      modal.showModal();
+    },
+  };
+}
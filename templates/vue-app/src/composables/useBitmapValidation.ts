@@ -0,0 +1,85 @@
+import { computed, ref, toValue, watch, type MaybeRefOrGetter } from "vue";
+import {
+  invalidateBitmapValidation,
+  parseBitmapContent,
+  validateBitmapContent,
+  type BitmapValidationResult,
+  type BitmapValidationStatus,
+} from "@/lib/utils";
+
+interface UseBitmapValidationOptions {
+  content?: MaybeRefOrGetter<string | undefined>;
+  inscriptionId?: MaybeRefOrGetter<string | undefined>;
+  autoValidate?: MaybeRefOrGetter<boolean>;
+}
+
+/**
+ * Composable for managing bitmap validation status
+ * Re-validates whenever the content or inscription ID changes, results come
+ * from the validator's shared cache
+ */
+export function useBitmapValidation(options: UseBitmapValidationOptions) {
+  const validationResult = ref<BitmapValidationResult | null>(null);
+  const isValidating = ref(false);
+  const error = ref<string | null>(null);
+
+  const validateNow = async () => {
+    const content = toValue(options.content);
+    const inscriptionId = toValue(options.inscriptionId);
+    if (!content) {
+      validationResult.value = null;
+      return;
+    }
+
+    isValidating.value = true;
+    error.value = null;
+    try {
+      validationResult.value = await validateBitmapContent(content, inscriptionId);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Unknown validation error";
+      error.value = errorMessage;
+      validationResult.value = {
+        status: "error",
+        reason: "NETWORK_ERROR",
+        details: { inscriptionId, error: errorMessage },
+      };
+    } finally {
+      isValidating.value = false;
+    }
+  };
+
+  // Drops the cached scan of this bitmap and validates again
+  const revalidate = async () => {
+    const content = toValue(options.content);
+    const parsed = content ? parseBitmapContent(content) : null;
+    if (parsed) await invalidateBitmapValidation(parsed.bitmapNumber);
+    await validateNow();
+  };
+
+  const resetValidation = () => {
+    validationResult.value = null;
+    error.value = null;
+    isValidating.value = false;
+  };
+
+  watch(
+    () => [toValue(options.content), toValue(options.inscriptionId), toValue(options.autoValidate ?? true)],
+    ([content, , autoValidate]) => {
+      if (autoValidate && content) validateNow();
+    },
+    { immediate: true }
+  );
+
+  return { validationResult, isValidating, error, validateNow, revalidate, resetValidation };
+}
+
+/**
+ * Returns just the validation status for a given content
+ */
+export function useBitmapValidationStatus(
+  content?: MaybeRefOrGetter<string | undefined>,
+  inscriptionId?: MaybeRefOrGetter<string | undefined>
+) {
+  const { validationResult } = useBitmapValidation({ content, inscriptionId });
+  return computed<BitmapValidationStatus>(() => validationResult.value?.status ?? "unknown");
+}
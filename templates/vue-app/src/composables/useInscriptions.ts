@@ -0,0 +1,191 @@
+import { ref } from "vue";
+import type { FilterType } from "@/types";
+import { getIndexer, type AddressUtxo } from "@/lib/indexer";
+import { findBitmapInOutput } from "@/lib/utils";
+
+export interface UTXO {
+  txid: string;
+  vout: number;
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+    block_time?: number;
+  };
+  value: number;
+  formattedId: string;
+}
+
+export interface RuneInfo {
+  name: string;
+  amount?: number;
+  divisibility?: number;
+  symbol?: string;
+}
+
+export interface RuneUtxo extends UTXO {
+  runeInfo?: RuneInfo;
+}
+
+/** Represents an inscription with its metadata */
+export interface Inscription {
+  inscriptionId: string;
+  /** Unset when the indexer gives no number, /r/utxo never does */
+  inscriptionNumber?: string;
+  txid: string;
+  vout: number;
+  value: number;
+  utxo: UTXO;
+  contentType?: string;
+  preview?: string;
+  content?: string;
+  /** Confirmed against the bitmap index */
+  bitmapNumber?: number;
+  /** The output's bitmap inscription, set with bitmapNumber */
+  bitmapInscriptionId?: string;
+}
+
+type CategorizedUtxo =
+  | {
+      type: "inscription";
+      utxo: UTXO;
+      inscriptionId: string;
+      contentType?: string;
+      preview?: string;
+      bitmapNumber?: number;
+      bitmapInscriptionId?: string;
+    }
+  | { type: "rune"; utxo: RuneUtxo }
+  | { type: "cardinal"; utxo: UTXO };
+
+const BATCH_SIZE = 20;
+
+async function categorizeUtxo(utxo: AddressUtxo): Promise<CategorizedUtxo> {
+  const base = { ...utxo, formattedId: `${utxo.txid}:${utxo.vout}` };
+  try {
+    const data = await getIndexer().getUtxoAssets(utxo.txid, utxo.vout);
+    if (!data) return { type: "cardinal", utxo: base };
+
+    if (data.inscriptions.length > 0) {
+      // Bitmap content is checked against the bitmap index, which loads one OCI page per bitmap
+      const bitmap = await findBitmapInOutput(data.inscriptions, data.satRanges ?? []).catch((err) => {
+        console.error(`Failed to look up bitmaps for ${base.formattedId}:`, err);
+        return null;
+      });
+      return {
+        type: "inscription",
+        utxo: base,
+        // A bitmap is listed over any other inscription on the output
+        inscriptionId: bitmap?.inscriptionId ?? data.inscriptions[0],
+        bitmapNumber: bitmap?.bitmapNumber,
+        bitmapInscriptionId: bitmap?.inscriptionId,
+      };
+    }
+    if (Object.keys(data.runes).length > 0) {
+      const runeName = Object.keys(data.runes)[0];
+      return { type: "rune", utxo: { ...base, runeInfo: { name: runeName, ...data.runes[runeName] } } };
+    }
+    return { type: "cardinal", utxo: base };
+  } catch {
+    return { type: "cardinal", utxo: base };
+  }
+}
+
+async function fetchInscriptionContent(inscriptionId: string): Promise<string | undefined> {
+  try {
+    return await getIndexer().fetchInscriptionContent(inscriptionId);
+  } catch (error) {
+    console.error(`Failed to fetch content for ${inscriptionId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Composable for managing inscriptions and UTXOs
+ * Fetches an address's UTXOs, sorts them into inscriptions, runes and
+ * cardinals, and loads inscription content in batches
+ */
+export function useInscriptions() {
+  const inscriptions = ref<Inscription[]>([]);
+  const runes = ref<RuneUtxo[]>([]);
+  const cardinals = ref<UTXO[]>([]);
+  const isLoading = ref(false);
+  const error = ref<string | null>(null);
+  const progress = ref(0);
+  const total = ref(0);
+
+  const resetState = () => {
+    inscriptions.value = [];
+    runes.value = [];
+    cardinals.value = [];
+    total.value = 0;
+    error.value = null;
+  };
+
+  const fetchFromAddress = async (walletAddress: string) => {
+    if (!walletAddress || isLoading.value) return;
+    isLoading.value = true;
+    progress.value = 0;
+    resetState();
+
+    try {
+      const utxos = await getIndexer().getAddressUtxos(walletAddress.trim());
+      total.value = utxos.length;
+
+      for (let i = 0; i < utxos.length; i += BATCH_SIZE) {
+        const batch = await Promise.all(utxos.slice(i, i + BATCH_SIZE).map(categorizeUtxo));
+        const found: Inscription[] = [];
+        for (const result of batch) {
+          if (result.type === "inscription") {
+            found.push({
+              inscriptionId: result.inscriptionId,
+              txid: result.utxo.txid,
+              vout: result.utxo.vout,
+              value: result.utxo.value,
+              utxo: result.utxo,
+              contentType: result.contentType,
+              preview: result.preview,
+              bitmapNumber: result.bitmapNumber,
+              bitmapInscriptionId: result.bitmapInscriptionId,
+            });
+          } else if (result.type === "rune") {
+            runes.value.push(result.utxo);
+          } else {
+            cardinals.value.push(result.utxo);
+          }
+        }
+
+        const contents = await Promise.all(found.map((insc) => fetchInscriptionContent(insc.inscriptionId)));
+        inscriptions.value.push(...found.map((insc, j) => ({ ...insc, content: contents[j] })));
+        progress.value += batch.length;
+      }
+    } catch (err) {
+      console.error("Error in fetchFromAddress:", err);
+      resetState();
+      error.value = err instanceof Error ? err.message : "Unknown error occurred";
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  const filterInscriptions = (type: FilterType) =>
+    inscriptions.value.filter((inscription) => {
+      if (type === "all") return true;
+      if (inscription.bitmapNumber !== undefined) return type === "bitmap";
+      const content = inscription.content?.trim();
+      if (!content) return false;
+      return type === "bitmap" ? /^\d+\.bitmap$/.test(content) : /^\d+\.\d+\.bitmap$/.test(content);
+    });
+
+  return {
+    inscriptions,
+    runes,
+    cardinals,
+    isLoading,
+    error,
+    total,
+    progress,
+    fetchFromAddress,
+    resetState,
+    filterInscriptions,
+  };
+}
@@ -0,0 +1,32 @@
+import { ref, watch } from "vue";
+
+export type Theme = "light" | "dark" | "system";
+
+const STORAGE_KEY = "theme";
+const media = window.matchMedia("(prefers-color-scheme: dark)");
+const theme = ref<Theme>((localStorage.getItem(STORAGE_KEY) as Theme | null) ?? "system");
+
+function applyTheme() {
+  const dark = theme.value === "dark" || (theme.value === "system" && media.matches);
+  document.documentElement.classList.toggle("dark", dark);
+}
+
+/**
+ * Applies the stored theme before the app mounts and keeps following the OS
+ * preference while "system" is selected.
+ */
+export function initTheme() {
+  applyTheme();
+  media.addEventListener("change", applyTheme);
+  watch(theme, (value) => {
+    localStorage.setItem(STORAGE_KEY, value);
+    applyTheme();
+  });
+}
+
+export function useTheme() {
+  const setTheme = (value: Theme) => {
+    theme.value = value;
+  };
+  return { theme, setTheme };
+}
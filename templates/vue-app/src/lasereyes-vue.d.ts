@@ -0,0 +1,57 @@
+// @omnisat/lasereyes-vue ships without type declarations
+declare module "@omnisat/lasereyes-vue" {
+  import type { ComputedRef, Ref } from "vue";
+
+  export type ProviderType =
+    | "unisat"
+    | "xverse"
+    | "oyl"
+    | "magic-eden"
+    | "okx"
+    | "leather"
+    | "phantom"
+    | "wizz"
+    | "orange"
+    | "op_net";
+
+  export type NetworkType =
+    | "mainnet"
+    | "testnet"
+    | "testnet4"
+    | "signet"
+    | "regtest"
+    | "fractal mainnet"
+    | "fractal testnet";
+
+  export const SUPPORTED_WALLETS: Record<ProviderType, { name: ProviderType; url: string }>;
+
+  export function useLaserEyes(): {
+    address: Ref<string>;
+    paymentAddress: Ref<string>;
+    publicKey: Ref<string>;
+    paymentPublicKey: Ref<string>;
+    accounts: Ref<string[]>;
+    balance: number;
+    connected: Ref<boolean>;
+    isConnecting: Ref<boolean>;
+    isInitializing: Ref<boolean>;
+    provider: Ref<ProviderType | undefined>;
+    network: Readonly<Ref<NetworkType>>;
+    hasLeather: ComputedRef<boolean>;
+    hasMagicEden: ComputedRef<boolean>;
+    hasOkx: ComputedRef<boolean>;
+    hasOyl: ComputedRef<boolean>;
+    hasPhantom: ComputedRef<boolean>;
+    hasUnisat: ComputedRef<boolean>;
+    hasWizz: ComputedRef<boolean>;
+    hasXverse: ComputedRef<boolean>;
+    connect: (provider: ProviderType) => Promise<void>;
+    disconnect: () => void;
+    getBalance: () => Promise<string>;
+    getPublicKey: () => Promise<string>;
+    requestAccounts: () => Promise<string[]>;
+    signMessage: (message: string, toSignAddress?: string) => Promise<string>;
+    sendBTC: (to: string, amount: number) => Promise<string>;
+    switchNetwork: (network: NetworkType) => Promise<void>;
+  };
+}
@@ -0,0 +1,13 @@
+import { resolveNetworkConfig, type NetworkName } from "./networks";
+
+// Used when VITE_NETWORK is not set
+const DEFAULT_NETWORK: NetworkName = "mainnet";
+
+/** Network, mempool and ord settings for the whole app, see .env.local */
+export const networkConfig = resolveNetworkConfig({
+  network: import.meta.env.VITE_NETWORK || DEFAULT_NETWORK,
+  mempoolHost: import.meta.env.VITE_MEMPOOL_HOST,
+  mempoolPath: import.meta.env.VITE_MEMPOOL_PATH,
+  ordUrl: import.meta.env.VITE_ORD_URL,
+  indexer: import.meta.env.VITE_INDEXER,
+});
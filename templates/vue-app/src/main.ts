@@ -1,5 +1,7 @@
-import { createApp } from 'vue'
-import './style.css'
-import App from './App.vue'
+import { createApp } from "vue";
+import "./style.css";
+import App from "./App.vue";
+import { initTheme } from "@/composables/useTheme";
 
-createApp(App).mount('#app')
+initTheme();
+createApp(App).mount("#app");
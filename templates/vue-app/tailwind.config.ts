@@ -0,0 +1,10 @@
+import type { Config } from "tailwindcss";
+
+export default {
+  darkMode: "class",
+  content: ["./index.html", "./src/**/*.{vue,ts}"],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+} satisfies Config;
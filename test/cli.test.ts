@@ -0,0 +1,364 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import prompts from "prompts";
+import ts from "typescript";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { init } from "../src/bin/script.js";
+import { resolveNonInteractiveAnswers } from "../src/options.js";
+import { buildPlan } from "../src/scaffold.js";
+import { verifyProject } from "../src/verify.js";
+
+const fakePm = fileURLToPath(new URL("./fake-pm.mjs", import.meta.url));
+const executables = ["npm", "npx", "pnpm", "yarn", "bun"];
+
+class ExitError extends Error {
+  constructor(readonly code: number | undefined) {
+    super(`process.exit(${code})`);
+  }
+}
+
+let tmp: string;
+let cwd: string;
+let output: string[];
+
+/** Commands the fake package managers ran, as "<cwd> $ <command>" */
+function invocations() {
+  const log = path.join(tmp, "invocations.jsonl");
+  if (!fs.existsSync(log)) return [];
+  return fs
+    .readFileSync(log, "utf-8")
+    .trim()
+    .split("\n")
+    .map((line) => {
+      const { command, cwd: dir } = JSON.parse(line);
+      return `${path.relative(path.join(tmp, "work"), dir) || "."} $ ${command}`;
+    });
+}
+
+function run(...args: string[]) {
+  return init(["node", "create-lasereyes", ...args]);
+}
+
+function readJson(file: string) {
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+}
+
+beforeEach(() => {
+  tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "create-lasereyes-")));
+  const bin = path.join(tmp, "bin");
+  fs.mkdirSync(bin);
+  for (const executable of executables) {
+    const shim = path.join(bin, executable);
+    fs.writeFileSync(shim, `#!/bin/sh\nexec "${process.execPath}" "${fakePm}" ${executable} "$@"\n`);
+    fs.chmodSync(shim, 0o755);
+  }
+  fs.mkdirSync(path.join(tmp, "work"));
+
+  vi.stubEnv("PATH", `${bin}${path.delimiter}${process.env.PATH}`);
+  vi.stubEnv("FAKE_PM_LOG", path.join(tmp, "invocations.jsonl"));
+  vi.stubEnv("npm_config_user_agent", "");
+
+  cwd = process.cwd();
+  process.chdir(path.join(tmp, "work"));
+
+  output = [];
+  const capture = (...args: unknown[]) => {
+    output.push(args.map(String).join(" "));
+  };
+  vi.spyOn(console, "log").mockImplementation(capture);
+  vi.spyOn(console, "warn").mockImplementation(capture);
+  vi.spyOn(console, "error").mockImplementation(capture);
+  vi.spyOn(process, "exit").mockImplementation((code) => {
+    throw new ExitError(code as number | undefined);
+  });
+});
+
+afterEach(() => {
+  process.chdir(cwd);
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+const createNextAppFlags =
+  "--ts --eslint --app --src-dir --import-alias @/* --tailwind --no-git --yes";
+
+const shadcnSteps = (runner: string) => [
+  `my-app $ ${runner} shadcn@2.3 init --yes --defaults`,
+  `my-app $ ${runner} shadcn@2.3 add button --yes`,
+  `my-app $ ${runner} shadcn@2.3 add dropdown-menu --yes`,
+  `my-app $ ${runner} shadcn@2.3 add dialog --yes`,
+];
+
+describe("next-app", () => {
+  it.each([
+    [
+      "npm",
+      [
+        `.temp-next-app/my-app $ npx create-next-app@14 . ${createNextAppFlags}`,
+        "my-app $ npm install @omnisat/lasereyes@latest",
+        ...shadcnSteps("npx"),
+        "my-app $ npm install",
+      ],
+    ],
+    [
+      "pnpm",
+      [
+        `.temp-next-app/my-app $ pnpm dlx create-next-app@14 . ${createNextAppFlags}`,
+        "my-app $ pnpm add @omnisat/lasereyes@latest",
+        ...shadcnSteps("pnpm dlx"),
+        "my-app $ pnpm install",
+      ],
+    ],
+    [
+      "yarn",
+      [
+        `.temp-next-app/my-app $ npx create-next-app@14 . --use-yarn ${createNextAppFlags}`,
+        "my-app $ yarn add @omnisat/lasereyes@latest",
+        ...shadcnSteps("yarn dlx"),
+        "my-app $ yarn install",
+      ],
+    ],
+    [
+      "bun",
+      [
+        `.temp-next-app/my-app $ bun create next-app@14 . ${createNextAppFlags}`,
+        "my-app $ bun add @omnisat/lasereyes@latest",
+        ...shadcnSteps("bun x"),
+        "my-app $ bun install",
+      ],
+    ],
+  ])("runs the %s command sequence", async (packageManager, expected) => {
+    await run("my-app", "-t", "next-app", `--${packageManager}`, "-y");
+
+    expect(invocations()).toEqual(expected);
+    expect(fs.existsSync(".temp-next-app")).toBe(false);
+  });
+
+  it("writes the template over the generated app", async () => {
+    await run("my-app", "-t", "next-app", "--npm", "-y", "--network", "signet");
+
+    const pkg = readJson("my-app/package.json");
+    expect(pkg.name).toBe("my-app");
+    expect(pkg.scripts).toMatchObject({ dev: "next dev", mock: "node mock/server.mjs" });
+    expect(pkg.scripts).not.toHaveProperty("test");
+    expect(pkg.dependencies).toMatchObject({ next: "14.2.15", "@mempool/mempool.js": "^2.3.0" });
+    expect(pkg.devDependencies).not.toHaveProperty("vitest");
+
+    for (const file of [
+      "src/app/page.tsx",
+      "src/components/ConnectWallet.tsx",
+      "src/lib/bitmap-oci.ts",
+      "mock/server.mjs",
+      ".gitignore",
+    ]) {
+      expect(fs.existsSync(path.join("my-app", file)), file).toBe(true);
+    }
+    // The template's own test suite stays out of the app
+    expect(fs.existsSync("my-app/test")).toBe(false);
+    expect(fs.existsSync("my-app/vitest.config.ts")).toBe(false);
+    expect(fs.readFileSync("my-app/.env.local", "utf-8")).toContain("NEXT_PUBLIC_NETWORK=signet");
+    expect(fs.readFileSync("my-app/src/lib/network.ts", "utf-8")).toContain(
+      'const DEFAULT_NETWORK: NetworkName = "signet";'
+    );
+  });
+
+  it("leaves only app code in the generated app's type-check", async () => {
+    await run("my-app", "-t", "next-app", "--npm", "-y");
+
+    // What `tsc --noEmit` in --verify checks, with create-next-app's tsconfig
+    const root = path.resolve("my-app");
+    const config = ts.getParsedCommandLineOfConfigFile(
+      path.join(root, "tsconfig.json"),
+      {},
+      { ...ts.sys, onUnRecoverableConfigFileDiagnostic: () => {} }
+    )!;
+    const files = config.fileNames.map((file) => path.relative(root, file));
+    expect(files.filter((file) => !file.startsWith("src/"))).toEqual(["tailwind.config.ts"]);
+
+    // The app's packages are not installed here, src/lib only needs the ones this repo has
+    const program = ts.createProgram(
+      config.fileNames.filter((file) => path.relative(root, file).startsWith("src/lib/")),
+      {
+        ...config.options,
+        paths: { ...config.options.paths, "*": [path.join(cwd, "node_modules/*")] },
+        typeRoots: [path.join(cwd, "node_modules/@types")],
+        types: ["node"],
+      }
+    );
+    const diagnostics = ts.getPreEmitDiagnostics(program).map((diagnostic) =>
+      ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")
+    );
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("removes .temp-next-app when create-next-app fails", async () => {
+    vi.stubEnv("FAKE_PM_FAIL", "create-next-app");
+
+    await expect(run("my-app", "-t", "next-app", "--npm", "-y")).rejects.toThrow(
+      new ExitError(1)
+    );
+
+    expect(invocations()).toEqual([
+      `.temp-next-app/my-app $ npx create-next-app@14 . ${createNextAppFlags}`,
+    ]);
+    expect(fs.existsSync(".temp-next-app")).toBe(false);
+    expect(fs.existsSync("my-app")).toBe(false);
+    expect(output.join("\n")).toContain("Failed to create React app");
+  });
+
+  it("removes .temp-next-app when the package manager is not installed", async () => {
+    fs.rmSync(path.join(tmp, "bin", "bun"));
+    // Only the shims, so no real bun is found either
+    vi.stubEnv("PATH", path.join(tmp, "bin"));
+
+    await expect(run("my-app", "-t", "next-app", "--bun", "-y")).rejects.toThrow(
+      new ExitError(1)
+    );
+
+    expect(invocations()).toEqual([]);
+    expect(fs.existsSync(".temp-next-app")).toBe(false);
+    expect(fs.existsSync("my-app")).toBe(false);
+    expect(output.join("\n")).toContain("failed to start");
+  });
+
+  it("removes .temp-next-app when a later step fails", async () => {
+    vi.stubEnv("FAKE_PM_FAIL", "shadcn@2.3 init");
+
+    await expect(run("my-app", "-t", "next-app", "--npm", "-y")).rejects.toThrow(
+      new ExitError(1)
+    );
+
+    expect(invocations().at(-1)).toBe("my-app $ npx shadcn@2.3 init --yes --defaults");
+    expect(fs.existsSync(".temp-next-app")).toBe(false);
+  });
+});
+
+describe("vite templates", () => {
+  it("runs create vite and installs the framework package", async () => {
+    await run("my-app", "-t", "vue-app", "--pnpm", "-y");
+
+    expect(invocations()).toEqual([
+      ". $ pnpm create vite@latest my-app -- --template vue-ts",
+      "my-app $ pnpm add @omnisat/lasereyes-vue@latest",
+      "my-app $ pnpm install",
+    ]);
+    expect(readJson("my-app/package.json").dependencies).toHaveProperty("@omnisat/lasereyes-vue");
+    expect(fs.existsSync("my-app/src/App.vue")).toBe(true);
+  });
+
+  it.each([
+    ["vite-react", "src/lib/utils.ts", "npm exec -- tsc -b --pretty false"],
+    ["vue-app", "src/App.vue", "npm exec -- vue-tsc -b --pretty false"],
+  ])("reports type errors in %s template files", async (template, file, checker) => {
+    await run("my-app", "-t", template, "--npm", "-y");
+    fs.appendFileSync(path.join("my-app", file), "\n// @fake-type-error\n");
+
+    const answers = resolveNonInteractiveAnswers(
+      "my-app",
+      { template, overwrite: true },
+      "npm"
+    );
+    const result = await verifyProject(answers, buildPlan(answers));
+
+    expect(invocations()).toContain(`my-app $ ${checker}`);
+    expect(result.ok).toBe(false);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        phase: "typecheck",
+        file,
+        templateFile: expect.stringMatching(new RegExp(`/${file}$`)),
+        message: "TS2322: Type 'string' is not assignable to type 'number'.",
+      }),
+    ]);
+  });
+});
+
+describe("--shadcn with --no-tailwind", () => {
+  afterEach(() => {
+    delete (process.stdin as { isTTY?: boolean }).isTTY;
+  });
+
+  it.each([
+    ["with prompts", true],
+    ["without prompts", false],
+  ])("exits before scaffolding %s", async (_, isTTY) => {
+    Object.defineProperty(process.stdin, "isTTY", { value: isTTY, configurable: true });
+
+    const args = ["my-app", "-t", "next-app", "--npm", "--shadcn", "--no-tailwind"];
+    await expect(run(...(isTTY ? args : [...args, "-y"]))).rejects.toThrow(new ExitError(1));
+
+    expect(output.join("\n")).toContain("Shadcn UI requires TailwindCSS");
+    expect(invocations()).toEqual([]);
+  });
+});
+
+describe("existing target directory", () => {
+  beforeEach(() => {
+    fs.mkdirSync("my-app");
+    fs.writeFileSync("my-app/old.txt", "keep me");
+  });
+
+  describe("with prompts", () => {
+    // Prompts only show on a terminal, prompts.inject() answers them
+    beforeEach(() => {
+      Object.defineProperty(process.stdin, "isTTY", { value: true, configurable: true });
+    });
+
+    afterEach(() => {
+      delete (process.stdin as { isTTY?: boolean }).isTTY;
+    });
+
+    const interactiveArgs = [
+      "my-app",
+      "-t",
+      "next-app",
+      "--npm",
+      "--network",
+      "mainnet",
+      "--tailwind",
+      "--shadcn",
+      "--no-cursor-rules",
+    ];
+
+    it("cancels without touching the directory when overwrite is declined", async () => {
+      prompts.inject([false]);
+
+      await run(...interactiveArgs);
+
+      expect(output.join("\n")).toContain("Operation cancelled");
+      expect(fs.readFileSync("my-app/old.txt", "utf-8")).toBe("keep me");
+      expect(invocations()).toEqual([]);
+    });
+
+    it("empties the directory when overwrite is accepted", async () => {
+      prompts.inject([true]);
+
+      await run(...interactiveArgs);
+
+      expect(fs.existsSync("my-app/old.txt")).toBe(false);
+      expect(readJson("my-app/package.json").name).toBe("my-app");
+      expect(invocations()[0]).toBe(
+        `.temp-next-app/my-app $ npx create-next-app@14 . ${createNextAppFlags}`
+      );
+    });
+  });
+
+  it("refuses to continue without --overwrite when non-interactive", async () => {
+    await expect(run("my-app", "-t", "next-app", "--npm", "-y")).rejects.toThrow(new ExitError(1));
+
+    expect(output.join("\n")).toContain("pass --overwrite to remove existing files");
+    expect(fs.readFileSync("my-app/old.txt", "utf-8")).toBe("keep me");
+    expect(invocations()).toEqual([]);
+  });
+
+  it("replaces the contents with --overwrite", async () => {
+    await run("my-app", "-t", "next-app", "--npm", "-y", "--overwrite");
+
+    expect(fs.existsSync("my-app/old.txt")).toBe(false);
+    expect(fs.existsSync("my-app/src/components/ConnectWallet.tsx")).toBe(true);
+  });
+});
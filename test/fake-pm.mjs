@@ -0,0 +1,104 @@
+// Stand-in for npm, npx, pnpm, yarn and bun in the CLI tests. Each call is
+// appended to $FAKE_PM_LOG, and scaffolders write the files the CLI expects
+// to find afterwards. A call containing $FAKE_PM_FAIL exits with an error.
+// tsc and vue-tsc report every source line containing "@fake-type-error" as
+// a type error, in the files the real checker would read.
+//
+//   node fake-pm.mjs <executable> [...args]
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+const [executable, ...args] = process.argv.slice(2);
+const command = [executable, ...args].join(" ");
+
+fs.appendFileSync(
+  process.env.FAKE_PM_LOG,
+  JSON.stringify({ command, cwd: process.cwd() }) + "\n"
+);
+
+if (process.env.FAKE_PM_FAIL && command.includes(process.env.FAKE_PM_FAIL)) {
+  console.error(`error: ${command} failed`);
+  process.exit(1);
+}
+
+function write(file, content = "") {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
+
+function writePackageJson(dir, pkg) {
+  write(path.join(dir, "package.json"), JSON.stringify(pkg, null, 2) + "\n");
+}
+
+if (args.some((arg) => /^(create-)?next-app@/.test(arg))) {
+  // create-next-app --ts --app --src-dir, run inside the project directory
+  writePackageJson(".", {
+    name: path.basename(process.cwd()),
+    version: "0.1.0",
+    private: true,
+    scripts: { dev: "next dev", build: "next build", start: "next start", lint: "next lint" },
+    dependencies: { next: "14.2.15", react: "^18", "react-dom": "^18" },
+    devDependencies: { typescript: "^5", "@types/node": "^20", "@types/react": "^18" },
+  });
+  for (const file of [".gitignore", "src/app/page.tsx", "src/app/layout.tsx", "src/app/globals.css"]) {
+    write(file);
+  }
+  // The vendored --offline base holds create-next-app's own tsconfig.json
+  write(
+    "tsconfig.json",
+    fs.readFileSync(new URL("../templates/next-base/tsconfig.json", import.meta.url), "utf-8")
+  );
+} else if (args.includes("vite@latest")) {
+  // create-vite <dir> -- --template <name>
+  const dir = args[args.indexOf("vite@latest") + 1];
+  writePackageJson(dir, {
+    name: path.basename(dir),
+    private: true,
+    version: "0.0.0",
+    type: "module",
+    scripts: { dev: "vite", build: "vite build", preview: "vite preview" },
+    devDependencies: { typescript: "~5.6.2", vite: "^6.0.0" },
+  });
+  write(path.join(dir, "index.html"));
+  const template = args[args.indexOf("--template") + 1];
+  if (template !== "vanilla-ts") {
+    // Only project references, a plain `tsc --noEmit` checks nothing
+    write(
+      path.join(dir, "tsconfig.json"),
+      JSON.stringify({
+        files: [],
+        references: [{ path: "./tsconfig.app.json" }, { path: "./tsconfig.node.json" }],
+      }) + "\n"
+    );
+  }
+} else if (args.some((arg) => arg.startsWith("shadcn@")) && args.includes("init")) {
+  write("components.json", "{}\n");
+}
+
+const checker = args.find((arg) => arg === "tsc" || arg === "vue-tsc");
+if (checker) {
+  const tsconfig = fs.existsSync("tsconfig.json")
+    ? JSON.parse(fs.readFileSync("tsconfig.json", "utf-8"))
+    : {};
+  const buildMode = args.includes("-b") || args.includes("--build");
+  const extensions = checker === "vue-tsc" ? [".ts", ".tsx", ".vue"] : [".ts", ".tsx"];
+  const errors = [];
+  if (buildMode || !Array.isArray(tsconfig.files) || tsconfig.files.length > 0) {
+    const files = fs.existsSync("src") ? fs.readdirSync("src", { recursive: true }) : [];
+    for (const file of files) {
+      if (!extensions.includes(path.extname(file))) continue;
+      const lines = fs.readFileSync(path.join("src", file), "utf-8").split("\n");
+      lines.forEach((line, i) => {
+        const column = line.indexOf("@fake-type-error");
+        if (column === -1) return;
+        const location = `${path.join("src", file)}(${i + 1},${column + 1})`;
+        errors.push(`${location}: error TS2322: Type 'string' is not assignable to type 'number'.`);
+      });
+    }
+  }
+  if (errors.length > 0) {
+    console.log(errors.join("\n"));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    projects: [
+      // The template's own validation tests
+      "templates/next-app",
+      {
+        test: {
+          name: "cli",
+          include: ["test/**/*.test.ts"],
+        },
+      },
+    ],
+  },
+});